@@ -0,0 +1,173 @@
+#!/usr/bin/env node
+/**
+ * Win-Probability Calibration CLI
+ *
+ * Simulates a tournament and checks the expected-value strategy's
+ * hand-tuned win-probability tables (estimateWinProb and
+ * calculateExpectedValue) against how the games actually ended.
+ *
+ * Usage:
+ *   node dist/bin/calibrate.js [options] [agents]
+ *
+ * Examples:
+ *   node dist/bin/calibrate.js --games 500 --seed 42
+ *   node dist/bin/calibrate.js ev,ev,aggressive,random --config small --json
+ */
+
+import { parseArgs } from 'util';
+
+import { parseAgentSpec } from '../lib/agent-specs.js';
+import { RODEO_CYCLES } from '../lib/simulator.js';
+import type { RodeoCycleConfig } from '../lib/simulator.js';
+import { loadRodeoConfigFiles, findRodeoConfig, normalizeConfigName } from '../lib/rodeo-config.js';
+import { runCalibration } from '../lib/calibration.js';
+import type { CalibrationReport, ReliabilityBin } from '../lib/calibration.js';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    games: { type: 'string', short: 'g', default: '200' },
+    config: { type: 'string', short: 'c', default: 'all' },
+    'config-file': { type: 'string', multiple: true },
+    seed: { type: 'string', short: 's' },
+    bins: { type: 'string', default: '10' },
+    'max-dist': { type: 'string', default: '6' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+if (values.help) {
+  console.log(`
+Win-probability calibration — check the EV strategy's tables against simulated games
+
+Usage: calibrate [options] [agents]
+
+Arguments:
+  agents              Comma-separated strategy specs to simulate
+                      (default: ev,ev,aggressive,random)
+
+Options:
+  -g, --games N       Games per config (default: 200)
+  -c, --config NAME   Config name(s), comma-separated, or all (default: all)
+                      Built-in: ${RODEO_CYCLES.map(c => normalizeConfigName(c.name)).join(', ')}
+      --config-file F   Load configs from a JSON file instead (repeatable)
+  -s, --seed N        RNG seed for reproducibility
+      --bins N        Reliability-curve bins (default: 10)
+      --max-dist N    Distances from N up share one table column (default: 6)
+      --json          Machine-readable JSON output
+  -h, --help          Show this help
+
+Examples:
+  calibrate --games 500 --seed 42
+  calibrate ev,ev,aggressive,random --config small --json`);
+  process.exit(0);
+}
+
+// ── Resolve configs ─────────────────────────────────────────────────
+
+function availableConfigs(): RodeoCycleConfig[] {
+  const files = values['config-file'] || [];
+  if (files.length === 0) return RODEO_CYCLES;
+  try {
+    return loadRodeoConfigFiles(files);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
+
+function resolveConfigs(configName: string, available: RodeoCycleConfig[]): RodeoCycleConfig[] {
+  if (configName === 'all') return available;
+  return configName.split(',').map(name => {
+    const match = findRodeoConfig(available, name);
+    if (!match) {
+      console.error(`Unknown config: ${name}. Available: ${available.map(c => normalizeConfigName(c.name)).join(', ')}, all`);
+      process.exit(1);
+    }
+    return match;
+  });
+}
+
+// ── Output formatting ───────────────────────────────────────────────
+
+function pct(p: number): string {
+  return `${(p * 100).toFixed(1)}%`.padStart(6);
+}
+
+function printBins(bins: ReliabilityBin[]): void {
+  console.log(`    ${'Predicted'.padEnd(11)} ${'N'.padStart(7)} ${'Mean'.padStart(6)} ${'Actual'.padStart(6)}`);
+  for (const bin of bins) {
+    const range = `${bin.lo.toFixed(2)}-${bin.hi.toFixed(2)}`;
+    const bar = '█'.repeat(Math.round(bin.observed * 20)).padEnd(20, '·');
+    console.log(`    ${range.padEnd(11)} ${String(bin.count).padStart(7)} ${pct(bin.meanPredicted)} ${pct(bin.observed)}  ${bar}`);
+  }
+}
+
+function printReport(report: CalibrationReport): void {
+  console.log(`\n${'═'.repeat(60)}`);
+  console.log('  WIN-PROBABILITY CALIBRATION');
+  console.log(`${'═'.repeat(60)}`);
+  console.log(`  ${report.samples} samples from ${report.games} games  |  base rate ${pct(report.baseRate).trim()}  |  constant-guess Brier ${report.baselineBrier.toFixed(4)}\n`);
+
+  for (const p of report.predictors) {
+    console.log(`  ${p.name}  —  Brier ${p.brier.toFixed(4)}  |  log loss ${p.logLoss.toFixed(4)}`);
+    printBins(p.bins);
+    console.log();
+  }
+
+  console.log('  Observed win rate by fruits needed × distance (replacement table)');
+  console.log(`    ${'Fruits'.padEnd(7)} ${'Dist'.padEnd(5)} ${'N'.padStart(7)} ${'Actual'.padStart(6)} ${'est'.padStart(6)} ${'ev'.padStart(6)}`);
+  for (const cell of report.table) {
+    const dist = `${cell.dist}${cell.distPlus ? '+' : ''}`;
+    console.log(
+      `    ${String(cell.fruitsNeeded).padEnd(7)} ${dist.padEnd(5)} ${String(cell.count).padStart(7)} `
+      + `${pct(cell.observed)} ${pct(cell.current.estimateWinProb)} ${pct(cell.current.calculateExpectedValue)}`,
+    );
+  }
+  console.log('    (est = estimateWinProb, ev = calculateExpectedValue, both averaged over the cell)\n');
+
+  console.log(`  Logistic fit  —  Brier ${report.logistic.brier.toFixed(4)}`);
+  report.logistic.features.forEach((name, i) => {
+    console.log(`    ${name.padEnd(14)} ${report.logistic.coefficients[i].toFixed(4).padStart(9)}`);
+  });
+  console.log('    p = 1 / (1 + exp(-Σ coefficient × feature))\n');
+}
+
+// ── Main ────────────────────────────────────────────────────────────
+
+/** A whole-number flag of at least 1; exits with an error otherwise */
+function positiveInt(flag: 'games' | 'bins' | 'max-dist'): number {
+  const raw = values[flag]!;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) {
+    console.error(`Invalid --${flag}: ${raw}. Use a whole number of at least 1`);
+    process.exit(1);
+  }
+  return n;
+}
+
+const agentInput = positionals[0] || 'ev,ev,aggressive,random';
+const specs = agentInput.split(',').map(s => parseAgentSpec(s.trim()));
+const numGames = positiveInt('games');
+const bins = positiveInt('bins');
+const maxDist = positiveInt('max-dist');
+const configs = resolveConfigs(values.config!, availableConfigs());
+const seed = values.seed ? parseInt(values.seed, 10) : undefined;
+
+if (!values.json) {
+  console.log(`\n  Simulating ${specs.map(s => s.label).join(', ')}`);
+  console.log(`  ${numGames} games × ${configs.length} config(s)${seed != null ? ` | seed: ${seed}` : ''}`);
+}
+
+const report = runCalibration(specs, configs, numGames, {
+  seed,
+  bins,
+  maxDist,
+});
+
+if (values.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  printReport(report);
+}
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+/**
+ * Local Mock Server CLI
+ *
+ * Runs a simulator-backed stand-in for the trifle-bot server so the
+ * live runner can be exercised offline.
+ *
+ * Usage:
+ *   node dist/bin/mock-server.js [--port N] [--config NAME] [--config-file FILE] [--seed N]
+ *
+ * Then, in another terminal:
+ *   node dist/bin/play.js --server http://127.0.0.1:8787
+ */
+
+import { parseArgs } from 'util';
+
+import { MockServer } from '../lib/mock-server.js';
+import { RODEO_CYCLES } from '../lib/simulator.js';
+import { loadRodeoConfigs, findRodeoConfig, normalizeConfigName } from '../lib/rodeo-config.js';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p', default: '8787' },
+    host: { type: 'string', default: '127.0.0.1' },
+    config: { type: 'string', short: 'c' },
+    'config-file': { type: 'string' },
+    seed: { type: 'string', short: 's' },
+    'round-seconds': { type: 'string' },
+    'new-game-delay': { type: 'string' },
+    balls: { type: 'string', default: '100' },
+    verbose: { type: 'boolean', short: 'v', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+if (values.help) {
+  console.log(`
+Mock trifle-bot server — offline stand-in backed by the simulator
+
+Usage: mock-server [options]
+
+Options:
+  -p, --port N             Port to listen on (default: 8787, 0 = random)
+      --host HOST          Interface to bind (default: 127.0.0.1)
+  -c, --config NAME        Rodeo config: ${RODEO_CYCLES.map(c => normalizeConfigName(c.name)).join(', ')} (default: small)
+      --config-file FILE   Load configs from a JSON file (--config picks one; default: the first)
+  -s, --seed N             RNG seed for fruit placement
+      --round-seconds N    Round length in seconds (default: 10)
+      --new-game-delay N   Seconds between games (default: 20)
+      --balls N            Starting balls per new account (default: 100)
+  -v, --verbose            Log every round
+  -h, --help               Show this help`);
+  process.exit(0);
+}
+
+let available = RODEO_CYCLES;
+if (values['config-file']) {
+  try {
+    available = loadRodeoConfigs(values['config-file']);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
+
+// Without --config, use the first available config (Small for the built-ins)
+const config = values.config ? findRodeoConfig(available, values.config) : available[0];
+if (!config) {
+  console.error(`Unknown config: ${values.config}. Available: ${available.map(c => normalizeConfigName(c.name)).join(', ')}`);
+  process.exit(1);
+}
+
+const server = new MockServer({
+  config,
+  seed: values.seed ? parseInt(values.seed, 10) : undefined,
+  roundDurationSeconds: values['round-seconds'] ? parseFloat(values['round-seconds']) : undefined,
+  newGameDelaySeconds: values['new-game-delay'] ? parseFloat(values['new-game-delay']) : undefined,
+  startingBalls: parseInt(values.balls!, 10),
+  verbose: values.verbose,
+});
+
+const url = await server.start(parseInt(values.port!, 10), values.host);
+console.log(`Mock server listening on ${url} (config: ${config.name}, seed: ${server.seed})`);
+console.log(`  Play against it: node dist/bin/play.js --server ${url}`);
+
+const shutdown = (): void => {
+  server.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -18,16 +18,20 @@ import { parseArgs } from 'util';
 import { createAndAuthenticate, reauthenticate, checkToken } from '../lib/auth.js';
 import type { AuthUser } from '../lib/auth.js';
 import { SnakeClient } from '../lib/client.js';
-import { parseGameState, getTeamById } from '../lib/game-state.js';
-import type { ParsedGameState } from '../lib/game-state.js';
+import { parseGameState, getTeamById, ROUND_TIMING } from '../lib/game-state.js';
+import type { GameState, ParsedGameState } from '../lib/game-state.js';
 import { getStrategy } from '../lib/strategies/index.js';
-import type { VoteAction, AgentState } from '../lib/strategies/base.js';
+import { voteDelay, overrideKind } from '../lib/strategies/base.js';
+import type { VoteAction, VoteTiming, AgentState } from '../lib/strategies/base.js';
 import { TelegramLogger, formatVote, formatGameEnd, formatTeamSwitch, formatError } from '../lib/telegram.js';
+import { LiveReplayRecorder, ReplayFileWriter } from '../lib/replay.js';
+import { createRNG } from '../lib/simulator.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const STATE_DIR = join(__dirname, '.state');
 const CREDENTIALS_FILE = join(STATE_DIR, 'credentials.json');
 const GAME_LOG_FILE = join(STATE_DIR, 'game-log.jsonl');
+const MEMORY_FILE = join(STATE_DIR, 'strategy-memory.json');
 
 const SERVERS: Record<string, string> = {
   live: 'https://bot.trifle.life',
@@ -51,6 +55,10 @@ interface RunAgentOptions {
   telegramToken?: string;
   telegramChatId?: string;
   contrarian?: boolean;
+  /** Append a JSONL replay of every game to this file */
+  record?: string;
+  /** Seed for the strategy's RNG (auto-generated if omitted) */
+  seed?: number;
 }
 
 function ensureStateDir(): void {
@@ -73,6 +81,21 @@ function saveCredentials(creds: Credentials): void {
   writeFileSync(CREDENTIALS_FILE, JSON.stringify(creds, null, 2));
 }
 
+/** Strategy memory by `agent/strategy`, so it survives restarts */
+function loadMemory(): Record<string, Record<string, unknown>> {
+  try {
+    if (existsSync(MEMORY_FILE)) {
+      return JSON.parse(readFileSync(MEMORY_FILE, 'utf8'));
+    }
+  } catch {}
+  return {};
+}
+
+function saveMemory(key: string, memory: Record<string, unknown>): void {
+  ensureStateDir();
+  writeFileSync(MEMORY_FILE, JSON.stringify({ ...loadMemory(), [key]: memory }, null, 2));
+}
+
 function logEvent(entry: Record<string, unknown>): void {
   ensureStateDir();
   const line = JSON.stringify({ ...entry, ts: new Date().toISOString() }) + '\n';
@@ -138,6 +161,25 @@ async function ensureAuth(
   return user;
 }
 
+/**
+ * Hold a vote until its timing says to submit, measured against the
+ * server countdown. Returns the state at that moment so the strategy can
+ * re-decide, or null if the round ended while waiting.
+ */
+async function waitForVoteTime(
+  client: SnakeClient,
+  parsed: ParsedGameState,
+  timing: VoteTiming | undefined,
+): Promise<ParsedGameState | null> {
+  const totalRoundTime = parsed.raw.totalRoundTime ?? ROUND_TIMING.baseDurationSec;
+  const delay = voteDelay(timing, totalRoundTime - parsed.countdown, parsed.countdown);
+  if (delay <= 0) return parsed;
+
+  await sleep(delay * 1000);
+  const fresh = parseGameState(await client.getGameState());
+  return fresh?.active && fresh.round === parsed.round ? fresh : null;
+}
+
 /**
  * Main game loop -- plays rounds against the live server.
  */
@@ -155,7 +197,11 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
   const client = new SnakeClient(serverUrl, null);
   const strategyOpts: Record<string, unknown> = {};
   if (options.contrarian) strategyOpts.contrarian = true;
-  const strategy = getStrategy(strategyName, strategyOpts);
+  const { rng, seed } = createRNG(options.seed);
+  const strategy = getStrategy(strategyName, { ...strategyOpts, rng });
+  console.log(`Strategy seed: ${seed} (rerun with --seed ${seed} to reproduce)`);
+  const memoryKey = `${agentName}/${strategyName}`;
+  strategy.memory = loadMemory()[memoryKey] ?? {};
 
   // Optional Telegram logging
   const tg = options.telegramToken && options.telegramChatId
@@ -163,6 +209,12 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
     : null;
   if (tg) console.log(`Telegram logging: enabled`);
 
+  // Optional replay recording
+  const replay = options.record
+    ? new LiveReplayRecorder(new ReplayFileWriter(options.record, true), { id: agentName, name: agentName, strategy: strategyName })
+    : null;
+  if (replay) console.log(`Recording replay to: ${options.record}`);
+
   // Authenticate
   await ensureAuth(client, serverUrl, agentName);
 
@@ -180,6 +232,76 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
   let gamesPlayed: number = 0;
   let wins: number = 0;
   let votesPlaced: number = 0;
+  let gameSpend: number = 0;
+  let gameStartBalance: number = 0;
+
+  const agentState = (): AgentState => ({
+    currentTeam,
+    roundSpend,
+    roundVoteCount,
+    lastRound,
+    gamesPlayed,
+    votesPlaced,
+    wins,
+  });
+
+  // Last in-game state, for games that end without a final state
+  let lastParsed: ParsedGameState | null = null;
+  let lastRawState: GameState | null = null;
+
+  /**
+   * In-game → ended: run the end-of-game hooks, save memory, close the
+   * replay and log the result. Games without a winner (dead ends,
+   * collisionMode 'end', a vanished state) count as losses, as in the
+   * simulator.
+   */
+  const endGame = async (parsed: ParsedGameState, rawState: GameState): Promise<void> => {
+    const winner = parsed.winner ?? null;
+    const didWin = winner !== null && currentTeam === winner;
+    strategy.onRoundEnd(parsed, agentState());
+    gamesPlayed++;
+    if (didWin) wins++;
+    inGame = false;
+    strategy.onGameEnd(parsed, agentState(), didWin);
+    saveMemory(memoryKey, strategy.memory);
+
+    const winnerTeam = winner ? getTeamById(parsed, winner) : null;
+    if (winner) {
+      console.log(`\nGame Over! Winner: ${winnerTeam?.emoji || winner} ${winnerTeam?.name || ''}`);
+    } else {
+      console.log('\nGame Over! No winner');
+    }
+    console.log(`   ${didWin ? 'WE WON!' : 'We lost.'} (${wins}/${gamesPlayed} wins)`);
+    if (winnerTeam) tg?.send(formatGameEnd(winnerTeam, didWin));
+
+    if (replay) {
+      // Earnings are estimated from the balance change over the game
+      const endBalance = await client.getBalance();
+      const earned = endBalance - (gameStartBalance - gameSpend);
+      replay.endGame(rawState, { spent: gameSpend, earned, profit: earned - gameSpend });
+    }
+
+    logEvent({
+      event: 'game_end',
+      agent: agentName,
+      strategy: strategyName,
+      winner,
+      didWin,
+      gamesPlayed,
+      wins,
+      ourTeam: currentTeam,
+      fruitScores: parsed.raw?.fruitScores,
+      rounds: parsed.round,
+    });
+
+    currentTeam = null;
+    lastRound = -1;
+    roundVote = null;
+    roundSpend = 0;
+    roundVoteCount = 0;
+    lastParsed = null;
+    lastRawState = null;
+  };
 
   while (true) {
     try {
@@ -198,7 +320,8 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
       if (!parsed) {
         if (inGame) {
           console.log('Game ended (no state)');
-          inGame = false;
+          if (lastParsed && lastRawState) await endGame(lastParsed, lastRawState);
+          else inGame = false;
         }
         await sleep(pollMs);
         continue;
@@ -212,39 +335,18 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
         roundVote = null;
         roundSpend = 0;
         roundVoteCount = 0;
+        gameSpend = 0;
         console.log(`\n--- New Game Started ---`);
+        if (replay) {
+          gameStartBalance = await client.getBalance();
+          replay.startGame(rawState);
+        }
+        strategy.onGameStart(parsed, agentState());
       }
 
-      // Game ended
-      if (!parsed.active && parsed.winner && inGame) {
-        const didWin = currentTeam === parsed.winner;
-        gamesPlayed++;
-        if (didWin) wins++;
-        inGame = false;
-
-        const winnerTeam = getTeamById(parsed, parsed.winner);
-        console.log(`\nGame Over! Winner: ${winnerTeam?.emoji || parsed.winner} ${winnerTeam?.name || ''}`);
-        console.log(`   ${didWin ? 'WE WON!' : 'We lost.'} (${wins}/${gamesPlayed} wins)`);
-        if (winnerTeam) tg?.send(formatGameEnd(winnerTeam, didWin));
-
-        logEvent({
-          event: 'game_end',
-          agent: agentName,
-          strategy: strategyName,
-          winner: parsed.winner,
-          didWin,
-          gamesPlayed,
-          wins,
-          ourTeam: currentTeam,
-          fruitScores: parsed.raw?.fruitScores,
-          rounds: parsed.round,
-        });
-
-        currentTeam = null;
-        lastRound = -1;
-        roundVote = null;
-        roundSpend = 0;
-        roundVoteCount = 0;
+      // Game ended (with or without a winner)
+      if (!parsed.active && inGame) {
+        await endGame(parsed, rawState);
         await sleep(pollMs);
         continue;
       }
@@ -254,25 +356,35 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
         continue;
       }
 
+      lastParsed = parsed;
+      lastRawState = rawState;
+      replay?.observe(rawState);
+
       // --- New round ---
       if (parsed.round !== lastRound) {
+        if (lastRound !== -1) strategy.onRoundEnd(parsed, agentState());
         roundVote = null;
         roundSpend = 0;
         roundVoteCount = 0;
         lastRound = parsed.round!;
 
-        const bal = await client.getBalance();
-        const state: AgentState = {
-          currentTeam,
-          roundSpend,
-          roundVoteCount,
-          lastRound,
-          gamesPlayed,
-          votesPlaced,
-          wins,
-        };
-
-        const voteResult = strategy.computeVote(parsed, bal, state);
+        let bal = await client.getBalance();
+        const state = agentState();
+
+        let voteResult = strategy.computeVote(parsed, bal, state);
+        let voteState = parsed;
+
+        // Held vote: wait for its time, then re-decide against the round as it is then
+        const timing = voteResult && !('skip' in voteResult) ? voteResult.timing ?? strategy.voteTiming(parsed) : undefined;
+        const at = await waitForVoteTime(client, parsed, timing);
+        if (at !== parsed) {
+          voteResult = null;
+          if (at) {
+            voteState = at;
+            bal = await client.getBalance();
+            voteResult = strategy.computeVote(at, bal, state);
+          }
+        }
 
         if (!voteResult) {
           await sleep(pollMs);
@@ -296,14 +408,23 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
           await client.submitVote(voteResult.direction, voteResult.team.id, voteResult.amount);
           roundVote = voteResult;
           roundSpend += voteResult.amount;
+          gameSpend += voteResult.amount;
           roundVoteCount++;
           votesPlaced++;
+          replay?.vote({
+            direction: voteResult.direction,
+            team: voteResult.team.id,
+            amount: voteResult.amount,
+            counter: false,
+            extension: voteState.extensions,
+            reason: voteResult.reason,
+          });
 
           const newBal = bal - voteResult.amount;
           process.stdout.write(
             `R${parsed.round}: ${voteResult.direction}->${voteResult.team.emoji || voteResult.team.id} (${voteResult.reason}) bal:${newBal} `,
           );
-          tg?.send(formatVote(parsed.round!, voteResult.direction, voteResult.team, voteResult.amount, newBal, parsed.teams, voteResult.reason));
+          tg?.send(formatVote(parsed.round!, voteResult.direction, voteResult.team, voteResult.amount, newBal, voteState.teams, voteResult.reason));
         } catch (e: unknown) {
           const msg = e instanceof Error ? e.message : String(e);
           if (!msg.includes('already active')) {
@@ -316,34 +437,47 @@ async function runAgent(options: RunAgentOptions = {}): Promise<void> {
       }
 
       // --- Mid-round monitoring ---
-      if (roundVote && parsed.currentDirection !== roundVote.direction) {
+      // Overridden = the pending move has another direction, or credits another team
+      const override = roundVote && overrideKind(roundVote, parsed.currentDirection, parsed.currentWinningTeam);
+      if (roundVote && override) {
         const bal = await client.getBalance();
         const maxBudget = bal * maxRoundBudgetPct;
         const budgetRemaining = maxBudget - roundSpend;
 
         if (bal >= parsed.minBid && budgetRemaining >= parsed.minBid) {
-          const counterResult = strategy.shouldCounterBid?.(
-            parsed, bal,
-            {
-              currentTeam,
-              roundSpend,
-              roundVoteCount,
-              roundBudgetRemaining: budgetRemaining,
-              lastRound,
-              gamesPlayed,
-              votesPlaced,
-              wins,
-            },
-            roundVote,
-          );
+          const counterState: AgentState = { ...agentState(), roundBudgetRemaining: budgetRemaining };
+          let counterResult = strategy.shouldCounterBid?.(parsed, bal, counterState, roundVote, override);
+          let counterAt = parsed;
+
+          // Held counter-bid: wait, then re-decide if we're still overridden
+          const timing = counterResult && !('skip' in counterResult) ? counterResult.timing ?? strategy.voteTiming(parsed) : undefined;
+          const at = await waitForVoteTime(client, parsed, timing);
+          if (at !== parsed) {
+            const stillOverridden = at && overrideKind(roundVote, at.currentDirection, at.currentWinningTeam);
+            if (at && !stillOverridden) {
+              await sleep(pollMs);
+              continue;
+            }
+            counterResult = at && stillOverridden ? strategy.shouldCounterBid?.(at, bal, counterState, roundVote, stillOverridden) : null;
+            if (at) counterAt = at;
+          }
 
           if (counterResult && !('skip' in counterResult)) {
             try {
               await client.submitVote(counterResult.direction, counterResult.team.id, counterResult.amount);
               roundVote = counterResult;
               roundSpend += counterResult.amount;
+              gameSpend += counterResult.amount;
               roundVoteCount++;
               votesPlaced++;
+              replay?.vote({
+                direction: counterResult.direction,
+                team: counterResult.team.id,
+                amount: counterResult.amount,
+                counter: true,
+                extension: counterAt.extensions,
+                reason: counterResult.reason,
+              });
               process.stdout.write(`<-`);
             } catch {}
           } else {
@@ -378,6 +512,8 @@ async function main(): Promise<void> {
       'telegram-token': { type: 'string' },
       'telegram-chat-id': { type: 'string' },
       contrarian: { type: 'boolean', default: false },
+      record: { type: 'string' },
+      seed: { type: 'string' },
     },
     allowPositionals: true,
   });
@@ -390,6 +526,8 @@ async function main(): Promise<void> {
     telegramToken: values['telegram-token'],
     telegramChatId: values['telegram-chat-id'],
     contrarian: values.contrarian,
+    record: values.record,
+    seed: values.seed ? parseInt(values.seed, 10) : undefined,
   });
 }
 
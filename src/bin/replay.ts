@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+/**
+ * Replay Viewer CLI
+ *
+ * Steps through a recorded game (JSONL replay file written by
+ * `snake-rodeo-simulate --record` or `snake-rodeo-agents --record`),
+ * printing the board, votes and outcome of every round.
+ *
+ * Usage:
+ *   node dist/bin/replay.js FILE [--game N] [--delay MS | --step]
+ */
+
+import { parseArgs } from 'util';
+import { createInterface } from 'readline';
+
+import { readReplay } from '../lib/replay.js';
+import type { ReplayGame, ReplayRound } from '../lib/replay.js';
+import { printBoard } from '../lib/simulator.js';
+import type { SimGameState } from '../lib/simulator.js';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    game: { type: 'string', short: 'g' },
+    from: { type: 'string', default: '0' },
+    delay: { type: 'string', short: 'd', default: '0' },
+    step: { type: 'boolean', default: false },
+    summary: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+if (values.help || positionals.length === 0) {
+  console.log(`
+Replay Viewer — step through a recorded game
+
+Usage: replay FILE [options]
+
+Options:
+  -g, --game N        Only show game N (0-based; default: all games)
+      --from R        Start at round R (default: 0)
+  -d, --delay MS      Pause between rounds in ms (default: 0)
+      --step          Wait for Enter between rounds
+      --summary       One line per game, no boards
+  -h, --help          Show this help`);
+  process.exit(values.help ? 0 : 1);
+}
+
+const rl = values.step ? createInterface({ input: process.stdin, output: process.stdout }) : null;
+
+function waitForEnter(): Promise<void> {
+  return new Promise(resolve => rl!.question('  [enter] ', () => resolve()));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function printSummary(game: ReplayGame, index: number): void {
+  const { header, end } = game;
+  const agents = header.agents.map(a => a.name).join(', ');
+  const outcome = end ? `winner ${end.winner ?? 'none'} in ${end.rounds} rounds` : 'incomplete';
+  const seed = header.seed != null ? ` seed ${header.seed}` : '';
+  console.log(`Game ${index}: ${header.config?.name ?? header.source}${seed} — ${outcome} — ${agents}`);
+}
+
+function printRound(entry: ReplayRound): void {
+  const { result } = entry;
+  const ext = entry.extensions > 0 ? ` (${entry.extensions} ext)` : '';
+  console.log(`\n── Round ${entry.round}${ext} ──`);
+  printBoard(entry.preState as SimGameState);
+
+  const pools = entry.preState.teamPools || {};
+  console.log(`Pools: ${JSON.stringify(pools)} | Prize: ${entry.preState.prizePool ?? 0} | MinBid: ${entry.preState.minBid ?? 1}`);
+
+  for (const v of entry.votes) {
+    const tag = v.counter ? `  counter#${v.extension}` : '  vote';
+    const reason = v.reason ? `  (${v.reason})` : '';
+    console.log(`${tag.padEnd(12)} ${v.agent.padEnd(20)} ${v.direction.padEnd(5)} → ${v.team} x${v.amount}${reason}`);
+  }
+  if (entry.votes.length === 0) console.log('  (no votes)');
+
+  const ate = result.ateFruit ? ` — ate ${result.ateTeam} fruit at (${result.ateFruit.q},${result.ateFruit.r})` : '';
+  console.log(`→ ${result.direction} for ${result.winningTeam ?? 'nobody'}: ${result.event}${ate}`);
+}
+
+async function playGame(game: ReplayGame, index: number): Promise<void> {
+  printSummary(game, index);
+  if (values.summary) return;
+
+  const from = parseInt(values.from!, 10);
+  const delay = parseInt(values.delay!, 10);
+
+  for (const entry of game.rounds) {
+    if (entry.round < from) continue;
+    printRound(entry);
+    if (rl) await waitForEnter();
+    else if (delay > 0) await sleep(delay);
+  }
+
+  if (game.end) {
+    console.log(`\n── Final ──`);
+    printBoard(game.end.finalState as SimGameState);
+    console.log(`Winner: ${game.end.winner ?? 'none'} after ${game.end.rounds} rounds`);
+    for (const p of game.end.payouts) {
+      const profit = p.profit >= 0 ? `+${p.profit.toFixed(2)}` : p.profit.toFixed(2);
+      console.log(`  ${p.agent.padEnd(20)} spent ${p.spent.toFixed(2).padStart(7)}  earned ${p.earned.toFixed(2).padStart(7)}  ${profit}`);
+    }
+  }
+  console.log('');
+}
+
+const games = readReplay(positionals[0]);
+const only = values.game != null ? parseInt(values.game, 10) : null;
+
+if (only != null && !games[only]) {
+  console.error(`Game ${only} not found (file has ${games.length} game(s))`);
+  process.exit(1);
+}
+
+for (let i = 0; i < games.length; i++) {
+  if (only != null && i !== only) continue;
+  await playGame(games[i], i);
+}
+
+rl?.close();
@@ -7,21 +7,42 @@
  *
  * Usage:
  *   node dist/bin/simulate.js [options] [agents]
+ *   node dist/bin/simulate.js ratings [--ratings-file FILE]
  *
  * Examples:
  *   node dist/bin/simulate.js ev,aggressive --games 100 --seed 42
  *   node dist/bin/simulate.js ev,ev:contrarian --config small --json
+ *   node dist/bin/simulate.js ev,ev:contrarian,aggressive,random --format swiss --games 20
  */
 
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
 import { parseArgs } from 'util';
 
-import { getStrategy, listStrategiesWithInfo } from '../lib/strategies/index.js';
+import { listStrategiesWithInfo } from '../lib/strategies/index.js';
+import { parseAgentSpec, createAgentsFromSpecs } from '../lib/agent-specs.js';
+import type { AgentSpec } from '../lib/agent-specs.js';
 import {
-  SimAgent,
   runTournament,
+  spawnLayoutError,
   RODEO_CYCLES,
 } from '../lib/simulator.js';
-import type { RodeoCycleConfig, TournamentResults } from '../lib/simulator.js';
+import type { RodeoCycleConfig, TournamentResults, CollisionMode, SpawnPosition, GameRecord } from '../lib/simulator.js';
+import { ReplayFileWriter } from '../lib/replay.js';
+import { loadRodeoConfigFiles, findRodeoConfig, normalizeConfigName } from '../lib/rodeo-config.js';
+import { listPayoutModels } from '../lib/payouts.js';
+import { runBankrollTournament } from '../lib/bankroll.js';
+import type { BankrollResults } from '../lib/bankroll.js';
+import { runTournamentParallel } from '../lib/parallel.js';
+import { runFormatTournament, TOURNAMENT_FORMATS } from '../lib/tournament-formats.js';
+import type { TournamentFormat, FormatResults } from '../lib/tournament-formats.js';
+import { RatingBook } from '../lib/ratings.js';
+import type { LeaderboardEntry } from '../lib/ratings.js';
+import { computeStrategyStats, computeHeadToHead } from '../lib/stats.js';
+import type { StrategyStats, HeadToHeadStats, Interval } from '../lib/stats.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const RATINGS_FILE = join(__dirname, '.state', 'ratings.json');
 
 // ── CLI argument parsing ────────────────────────────────────────────
 
@@ -30,7 +51,24 @@ const { values, positionals } = parseArgs({
   options: {
     games: { type: 'string', short: 'g', default: '100' },
     config: { type: 'string', short: 'c', default: 'all' },
+    'config-file': { type: 'string', multiple: true },
     seed: { type: 'string', short: 's' },
+    collision: { type: 'string' },
+    'no-grow': { type: 'boolean', default: false },
+    'snake-length': { type: 'string' },
+    spawn: { type: 'string' },
+    payout: { type: 'string' },
+    'house-rake': { type: 'string' },
+    record: { type: 'string' },
+    workers: { type: 'string', short: 'w', default: '1' },
+    format: { type: 'string', short: 'f' },
+    rounds: { type: 'string' },
+    rate: { type: 'boolean', default: false },
+    bankroll: { type: 'string' },
+    'top-up': { type: 'string' },
+    runs: { type: 'string', default: '10' },
+    'ratings-file': { type: 'string' },
+    clock: { type: 'boolean', default: false },
     verbose: { type: 'boolean', short: 'v', default: false },
     json: { type: 'boolean', default: false },
     help: { type: 'boolean', short: 'h', default: false },
@@ -42,51 +80,96 @@ if (values.help) {
   process.exit(0);
 }
 
-// ── Parse agent specs ───────────────────────────────────────────────
-
-interface AgentSpec {
-  label: string;       // display label (e.g. "ev" or "ev:contrarian")
-  strategyName: string;
-  options: Record<string, unknown>;
-}
+// ── Resolve configs ─────────────────────────────────────────────────
 
-function parseAgentSpec(spec: string): AgentSpec {
-  const [name, ...optParts] = spec.split(':');
-  const options: Record<string, unknown> = {};
-  for (const part of optParts) {
-    // key=value or just key (boolean true)
-    const eqIdx = part.indexOf('=');
-    if (eqIdx !== -1) {
-      options[part.slice(0, eqIdx)] = part.slice(eqIdx + 1);
-    } else {
-      options[part] = true;
-    }
+/**
+ * Configs to choose from: the built-in RODEO_CYCLES, or only the ones
+ * loaded with --config-file.
+ */
+function availableConfigs(): RodeoCycleConfig[] {
+  const files = values['config-file'] || [];
+  if (files.length === 0) return RODEO_CYCLES;
+  try {
+    return loadRodeoConfigFiles(files);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
   }
-  return { label: spec, strategyName: name, options };
 }
 
-function createAgentsFromSpecs(specs: AgentSpec[], balance: number): SimAgent[] {
-  return specs.map((spec, i) => {
-    const strategy = getStrategy(spec.strategyName, spec.options);
-    return new SimAgent(
-      `agent-${i}`,
-      `${spec.label}#${i}`,
-      strategy,
-      balance,
-    );
+/**
+ * Resolve --config: "all" or a comma-separated list of names. Names match
+ * case-insensitively with spaces, dashes and underscores interchangeable.
+ */
+function resolveConfigs(configName: string, available: RodeoCycleConfig[]): RodeoCycleConfig[] {
+  if (configName === 'all') return available;
+  return configName.split(',').map(name => {
+    const match = findRodeoConfig(available, name);
+    if (!match) {
+      console.error(`Unknown config: ${name}. Available: ${available.map(c => normalizeConfigName(c.name)).join(', ')}, all`);
+      process.exit(1);
+    }
+    return match;
   });
 }
 
-// ── Resolve configs ─────────────────────────────────────────────────
-
-function resolveConfigs(configName: string): RodeoCycleConfig[] {
-  if (configName === 'all') return RODEO_CYCLES;
-  const match = RODEO_CYCLES.find(c => c.name.toLowerCase() === configName.toLowerCase());
+/**
+ * Parse --spawn: center, random, or a fixed "q,r" cell.
+ */
+function parseSpawn(value: string): SpawnPosition {
+  if (value === 'center' || value === 'random') return value;
+  const match = value.match(/^(-?\d+),(-?\d+)$/);
   if (!match) {
-    console.error(`Unknown config: ${configName}. Available: ${RODEO_CYCLES.map(c => c.name.toLowerCase()).join(', ')}, all`);
+    console.error(`Invalid spawn: ${value}. Use center, random, or q,r (e.g. 1,-2)`);
     process.exit(1);
   }
-  return [match];
+  return { q: parseInt(match[1], 10), r: parseInt(match[2], 10) };
+}
+
+/**
+ * Apply --collision / --no-grow / --snake-length / --spawn / --payout /
+ * --house-rake overrides on top of the selected configs.
+ */
+function applyRuleOverrides(configs: RodeoCycleConfig[]): RodeoCycleConfig[] {
+  const collision = values.collision as CollisionMode | undefined;
+  if (collision && collision !== 'reset' && collision !== 'end') {
+    console.error(`Unknown collision mode: ${collision}. Available: reset, end`);
+    process.exit(1);
+  }
+  const snakeLength = values['snake-length'] !== undefined ? Number(values['snake-length']) : undefined;
+  if (snakeLength !== undefined && !(Number.isInteger(snakeLength) && snakeLength >= 1)) {
+    console.error(`Invalid snake length: ${values['snake-length']}. Use a whole number of at least 1`);
+    process.exit(1);
+  }
+  const spawn = values.spawn ? parseSpawn(values.spawn) : undefined;
+  const payout = values.payout;
+  if (payout && !listPayoutModels().includes(payout)) {
+    console.error(`Unknown payout model: ${payout}. Available: ${listPayoutModels().join(', ')}`);
+    process.exit(1);
+  }
+  const houseRake = values['house-rake'] ? parseFloat(values['house-rake']) / 100 : undefined;
+  if (houseRake !== undefined && !(houseRake >= 0 && houseRake < 1)) {
+    console.error(`Invalid house rake: ${values['house-rake']}. Use a percentage from 0 to 99`);
+    process.exit(1);
+  }
+
+  return configs.map(c => {
+    const config: RodeoCycleConfig = {
+      ...c,
+      ...(collision ? { collision: true, collisionMode: collision } : {}),
+      ...(values['no-grow'] ? { grow: false } : {}),
+      ...(snakeLength ? { initialSnakeLength: snakeLength } : {}),
+      ...(spawn ? { spawn, spawnDirection: spawn === 'random' ? 'random' as const : c.spawnDirection } : {}),
+      ...(payout ? { auctionMode: payout } : {}),
+      ...(houseRake !== undefined ? { houseRake } : {}),
+    };
+    const spawnError = spawnLayoutError(config);
+    if (spawnError) {
+      console.error(`${config.name}: ${spawnError}`);
+      process.exit(1);
+    }
+    return config;
+  });
 }
 
 // ── Output formatting ───────────────────────────────────────────────
@@ -96,6 +179,7 @@ function printHelp(): void {
 Tournament Simulator — pit strategies against each other offline
 
 Usage: simulate [options] [agents]
+       simulate ratings [--ratings-file FILE]
 
 Arguments:
   agents              Comma-separated strategy specs (default: ev,aggressive)
@@ -104,8 +188,32 @@ Arguments:
 
 Options:
   -g, --games N       Games per config (default: 100)
-  -c, --config NAME   small|medium|large|all (default: all)
+  -c, --config NAME   Config name(s), comma-separated, or all (default: all)
+                      Built-in: ${RODEO_CYCLES.map(c => normalizeConfigName(c.name)).join(', ')}
+      --config-file F   Load configs from a JSON file instead (repeatable)
   -s, --seed N        RNG seed for reproducibility
+      --collision MODE  Crashes cost something: reset|end (default: off)
+      --no-grow         Snake keeps its length when it eats (default: grows on
+                        every fruit, and up to length 3 over the first two rounds)
+      --snake-length N  Initial snake length (default: config value)
+      --spawn POS       Snake start: center|random|q,r (default: center)
+      --payout MODEL    Payout model: ${listPayoutModels().join('|')}
+                        (default: all-pay-auction — split by vote count)
+      --house-rake PCT  Percentage of the prize pool kept by the house (default: 0)
+      --record FILE     Write a JSONL replay of every game (view with snake-rodeo-replay)
+      --clock           Play rounds on a virtual clock: agents vote at set times,
+                        only votes in the last 5s extend the round
+  -w, --workers N     Split games across N worker threads (default: 1)
+  -f, --format FMT    Pairwise matches instead of a free-for-all:
+                      round-robin|swiss|single-elim|double-elim
+                      (--games is then games per config per match)
+      --rounds N      Swiss rounds (default: ceil(log2(entrants)))
+      --rate          Update persistent strategy ratings from every game
+      --bankroll N    Carry balances across games, starting at N; agents that
+                      can't cover minBid are out (reports survival + bankrolls)
+      --top-up A:N      Bankroll mode: add A to every agent every N games
+      --runs N          Bankroll mode: repetitions of the tournament (default: 10)
+      --ratings-file F  Ratings JSON file (default: dist/bin/.state/ratings.json)
   -v, --verbose       Print per-round details
       --json          Machine-readable JSON output
   -h, --help          Show this help
@@ -121,7 +229,10 @@ Available strategies:`);
 Examples:
   simulate ev,aggressive --games 50 --seed 42
   simulate ev,ev:contrarian,random --config small --json
-  simulate ev,agg,con,rand --games 200`);
+  simulate ev,agg,con,rand --games 200
+  simulate ev,ev:contrarian,agg,rand --format round-robin --games 20
+  simulate ev,agg,con,rand --rate && simulate ratings
+  simulate ev,agg,rand --bankroll 100 --top-up 20:50 --games 50`);
 }
 
 interface StrategyGroupStats {
@@ -133,24 +244,28 @@ interface StrategyGroupStats {
   totalEarned: number;
   profit: number;
   roi: number;
+  switches: number;
+  abandonedSpent: number;
 }
 
 function aggregateByStrategy(
   results: TournamentResults,
 ): StrategyGroupStats[] {
-  const groups = new Map<string, { wins: number; games: number; spent: number; earned: number }>();
+  const groups = new Map<string, { wins: number; games: number; spent: number; earned: number; switches: number; abandoned: number }>();
 
   for (const stat of results.agentStats || []) {
     const label = stat.name.replace(/#\d+$/, '');
-    const existing = groups.get(label) || { wins: 0, games: 0, spent: 0, earned: 0 };
+    const existing = groups.get(label) || { wins: 0, games: 0, spent: 0, earned: 0, switches: 0, abandoned: 0 };
     existing.wins += stat.wins;
     existing.games += stat.gamesPlayed;
     existing.spent += stat.totalSpent || 0;
     existing.earned += stat.totalEarned || 0;
+    existing.switches += stat.switches || 0;
+    existing.abandoned += stat.abandonedSpent || 0;
     groups.set(label, existing);
   }
 
-  return [...groups.entries()].map(([label, { wins, games, spent, earned }]) => ({
+  return [...groups.entries()].map(([label, { wins, games, spent, earned, switches, abandoned }]) => ({
     label,
     wins,
     games,
@@ -159,10 +274,26 @@ function aggregateByStrategy(
     totalEarned: earned,
     profit: earned - spent,
     roi: spent > 0 ? (earned - spent) / spent : 0,
+    switches,
+    abandonedSpent: abandoned,
   }));
 }
 
-function printResults(results: TournamentResults, specs: AgentSpec[]): void {
+function formatInterval([lo, hi]: Interval, digits: number = 1, scale: number = 100): string {
+  return `[${(lo * scale).toFixed(digits)}, ${(hi * scale).toFixed(digits)}]`;
+}
+
+function formatP(p: number): string {
+  const stars = p < 0.001 ? ' ***' : p < 0.01 ? ' **' : p < 0.05 ? ' *' : ' (not significant)';
+  return `p = ${p < 0.001 ? '<0.001' : p.toFixed(3)}${stars}`;
+}
+
+function printResults(
+  results: TournamentResults,
+  specs: AgentSpec[],
+  stats: StrategyStats[],
+  h2h: HeadToHeadStats | null,
+): void {
   const stratGroups = aggregateByStrategy(results);
 
   console.log('\n═══════════════════════════════════════════');
@@ -199,6 +330,34 @@ function printResults(results: TournamentResults, specs: AgentSpec[]): void {
     );
   }
 
+  // Bootstrap intervals (resampling whole games)
+  console.log('\n  95% confidence intervals (bootstrap over games):');
+  console.log('  ' + '─'.repeat(70));
+  console.log(`  ${'Strategy'.padEnd(22)} ${'Win%'.padStart(16)}  ${'ROI%'.padStart(18)}  ${'Profit/game'.padStart(18)}`);
+  console.log('  ' + '─'.repeat(70));
+  for (const sg of stratGroups) {
+    const st = stats.find(s => s.label === sg.label);
+    if (!st) continue;
+    console.log(
+      `  ${sg.label.padEnd(22)} ${formatInterval(st.winRateCI).padStart(16)}  ${formatInterval(st.roiCI).padStart(18)}  ${formatInterval(st.profitPerGameCI, 2, 1).padStart(18)}`,
+    );
+  }
+
+  // Team switching: what defecting cost (spend left behind on abandoned teams that lost)
+  if (stratGroups.some(sg => sg.switches > 0)) {
+    console.log('\n  Team Switching:');
+    console.log('  ' + '─'.repeat(70));
+    console.log(`  ${'Strategy'.padEnd(22)} ${'Switches'.padStart(9)}  ${'Per game'.padStart(8)}  ${'Abandoned'.padStart(9)}  ${'% of spend'.padStart(10)}`);
+    console.log('  ' + '─'.repeat(70));
+    for (const sg of stratGroups) {
+      const perGame = sg.games > 0 ? sg.switches / sg.games : 0;
+      const pct = sg.totalSpent > 0 ? (sg.abandonedSpent / sg.totalSpent * 100).toFixed(1) : '0.0';
+      console.log(
+        `  ${sg.label.padEnd(22)} ${String(sg.switches).padStart(9)}  ${perGame.toFixed(2).padStart(8)}  ${String(sg.abandonedSpent).padStart(9)}  ${pct.padStart(9)}%`,
+      );
+    }
+  }
+
   // Head-to-head when exactly 2 strategy groups
   if (stratGroups.length === 2) {
     const [a, b] = stratGroups;
@@ -213,39 +372,260 @@ function printResults(results: TournamentResults, specs: AgentSpec[]): void {
     } else {
       console.log(`  → Dead even!`);
     }
+    if (h2h) {
+      // Paired over games: both strategies sat at every table
+      const sign = (v: number) => (v >= 0 ? '+' : '') + v.toFixed(2);
+      console.log(`  Profit/game ${h2h.a} − ${h2h.b}: ${sign(h2h.profitDiff)} ${formatInterval(h2h.profitDiffCI, 2, 1)}  ${formatP(h2h.profitP)}`);
+      console.log(`  Win rate ${h2h.a} − ${h2h.b}: ${sign(h2h.winDiff * 100)}pp ${formatInterval(h2h.winDiffCI)}  ${formatP(h2h.winP)}`);
+    }
+  }
+
+  console.log(`\n  Seed: ${results.seed} (rerun with --seed ${results.seed} to reproduce)\n`);
+}
+
+/**
+ * Parse --top-up AMOUNT:EVERY.
+ */
+function parseTopUp(value: string): { amount: number; every: number } {
+  const match = value.match(/^(\d+(?:\.\d+)?):(\d+)$/);
+  if (!match || parseInt(match[2], 10) < 1) {
+    console.error(`Invalid top-up: ${value}. Use AMOUNT:EVERY, e.g. 20:50 (20 balls every 50 games)`);
+    process.exit(1);
+  }
+  return { amount: parseFloat(match[1]), every: parseInt(match[2], 10) };
+}
+
+function printBankrollResults(results: BankrollResults): void {
+  console.log('\n═══════════════════════════════════════════');
+  console.log('  Bankroll Results');
+  console.log('═══════════════════════════════════════════\n');
+
+  const topUp = results.topUp ? ` | top-up ${results.topUp.amount} every ${results.topUp.every} games` : '';
+  console.log(`  ${results.runs.length} runs × ${results.games} games | start ${results.startingBankroll}${topUp} | Seed: ${results.seed}\n`);
+
+  // Survival curve at a few checkpoints
+  const checkpoints = [0.1, 0.25, 0.5, 0.75, 1].map(f => Math.max(1, Math.round(results.games * f)));
+  console.log('  Survival (% of agents able to cover minBid after game N):');
+  console.log('  ' + '─'.repeat(70));
+  console.log(`  ${'Strategy'.padEnd(22)} ${checkpoints.map(c => `#${c}`.padStart(8)).join('')}`);
+  console.log('  ' + '─'.repeat(70));
+  for (const s of results.survival) {
+    const cells = checkpoints.map(c => `${(s.solvent[c - 1] * 100).toFixed(0)}%`.padStart(8));
+    console.log(`  ${s.label.padEnd(22)} ${cells.join('')}`);
+  }
+
+  console.log('\n  Final bankroll:');
+  console.log('  ' + '─'.repeat(70));
+  console.log(`  ${'Strategy'.padEnd(22)} ${'Bust%'.padStart(6)} ${'Mean'.padStart(8)} ${'Min'.padStart(7)} ${'P10'.padStart(7)} ${'Median'.padStart(7)} ${'P90'.padStart(7)} ${'Max'.padStart(7)}`);
+  console.log('  ' + '─'.repeat(70));
+  const sorted = [...results.finalBankroll].sort((a, b) => b.median - a.median);
+  for (const d of sorted) {
+    const n = (v: number) => v.toFixed(0).padStart(7);
+    console.log(
+      `  ${d.label.padEnd(22)} ${(d.bustRate * 100).toFixed(0).padStart(5)}% ${d.mean.toFixed(0).padStart(8)} ${n(d.min)} ${n(d.p10)} ${n(d.median)} ${n(d.p90)} ${n(d.max)}`,
+    );
+  }
+  if (results.topUp) {
+    console.log(`\n  Each agent received ${sorted[0]?.deposited.toFixed(0) ?? 0} in top-ups on top of the starting ${results.startingBankroll}.`);
   }
 
   console.log(`\n  Seed: ${results.seed} (rerun with --seed ${results.seed} to reproduce)\n`);
 }
 
+/**
+ * Resolve --format, accepting single-elim / double-elim shorthands.
+ */
+function resolveFormat(name: string): TournamentFormat {
+  const normalized = name.replace(/-elim$/, '-elimination');
+  if (!TOURNAMENT_FORMATS.includes(normalized as TournamentFormat)) {
+    console.error(`Unknown format: ${name}. Available: round-robin, swiss, single-elim, double-elim`);
+    process.exit(1);
+  }
+  return normalized as TournamentFormat;
+}
+
+function printFormatResults(results: FormatResults): void {
+  console.log('\n═══════════════════════════════════════════');
+  console.log(`  ${results.format} Results`);
+  console.log('═══════════════════════════════════════════\n');
+
+  const knockout = results.standings.some(s => s.eliminatedIn !== undefined);
+  console.log(`  Matches: ${results.matches.length}  |  Seed: ${results.seed}\n`);
+
+  console.log(`  ${'#'.padStart(3)}  ${'Strategy'.padEnd(22)} ${'W-D-L'.padStart(8)}  ${'Pts'.padStart(5)}  ${'Games won'.padStart(9)}  ${'Profit'.padStart(8)}${knockout ? '  Out' : ''}`);
+  console.log('  ' + '─'.repeat(knockout ? 72 : 66));
+  for (const s of results.standings) {
+    const record = `${s.matchWins}-${s.draws}-${s.losses}`;
+    const out = knockout ? `  ${s.eliminatedIn ?? 'champion'}` : '';
+    console.log(
+      `  ${String(s.rank).padStart(3)}  ${s.label.padEnd(22)} ${record.padStart(8)}  ${s.points.toFixed(1).padStart(5)}  ${String(s.gamesWon).padStart(9)}  ${String(Math.round(s.profit)).padStart(8)}${out}`,
+    );
+  }
+
+  // Pairwise matrix: row's score against column (1 win, ½ draw, 0 loss)
+  const names = results.labels.map(l => l.slice(0, 7));
+  console.log('\n  Pairwise (row vs column, match score):');
+  console.log(`  ${''.padEnd(22)} ${names.map(n => n.padStart(7)).join(' ')}`);
+  results.matrix.forEach((row, i) => {
+    const cells = row.map((v, j) => i === j ? '—' : v === null ? '·' : v.toFixed(2));
+    console.log(`  ${results.labels[i].padEnd(22)} ${cells.map(c => c.padStart(7)).join(' ')}`);
+  });
+
+  console.log(`\n  Seed: ${results.seed} (rerun with --seed ${results.seed} to reproduce)\n`);
+}
+
+function printLeaderboard(entries: LeaderboardEntry[], before?: Map<string, number>): void {
+  console.log('\n  Ratings (mu − 3σ):');
+  console.log('  ' + '─'.repeat(before ? 62 : 54));
+  console.log(`  ${'#'.padStart(3)}  ${'Strategy'.padEnd(22)} ${'Rating'.padStart(7)}  ${'mu'.padStart(6)}  ${'±σ'.padStart(5)}  ${'Games'.padStart(6)}${before ? '  Change' : ''}`);
+  console.log('  ' + '─'.repeat(before ? 62 : 54));
+  entries.forEach((e, i) => {
+    let change = '';
+    if (before) {
+      const prev = before.get(e.label);
+      const diff = prev === undefined ? null : e.rating - prev;
+      change = diff === null ? '     new' : `  ${(diff >= 0 ? '+' : '') + diff.toFixed(2)}`.padStart(8);
+    }
+    console.log(
+      `  ${String(i + 1).padStart(3)}  ${e.label.padEnd(22)} ${e.rating.toFixed(2).padStart(7)}  ${e.mu.toFixed(2).padStart(6)}  ${e.sigma.toFixed(2).padStart(5)}  ${String(e.games).padStart(6)}${change}`,
+    );
+  });
+  console.log('');
+}
+
 // ── Main ────────────────────────────────────────────────────────────
 
+const ratingsFile = values['ratings-file'] || RATINGS_FILE;
+
+if (positionals[0] === 'ratings') {
+  const entries = RatingBook.load(ratingsFile).leaderboard();
+  if (values.json) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (entries.length === 0) {
+    console.log(`No ratings yet (${ratingsFile}). Run a tournament with --rate first.`);
+  } else {
+    printLeaderboard(entries);
+  }
+  process.exit(0);
+}
+
 const agentInput = positionals[0] || 'ev,aggressive';
 const specs = agentInput.split(',').map(s => parseAgentSpec(s.trim()));
 const numGames = parseInt(values.games!, 10);
-const configs = resolveConfigs(values.config!);
+const configs = applyRuleOverrides(resolveConfigs(values.config!, availableConfigs()));
 const seed = values.seed ? parseInt(values.seed, 10) : undefined;
 
+if (values.bankroll) {
+  if (values.format || values.rate || values.record || values.clock || parseInt(values.workers!, 10) > 1) {
+    console.error('--format, --rate, --record, --clock and --workers are not supported with --bankroll');
+    process.exit(1);
+  }
+  const startingBankroll = parseFloat(values.bankroll);
+  const topUp = values['top-up'] ? parseTopUp(values['top-up']) : null;
+  const runs = parseInt(values.runs!, 10);
+  if (!values.json) {
+    console.log(`Running bankroll tournament: ${specs.map(s => s.label).join(' vs ')}`);
+    console.log(`  ${numGames} games × ${configs.length} config(s) × ${runs} runs | bankroll: ${startingBankroll}${seed != null ? ` | seed: ${seed}` : ''}`);
+  }
+  const bankrollResults = runBankrollTournament(specs, configs, numGames, {
+    seed,
+    startingBankroll,
+    topUpEvery: topUp?.every,
+    topUpAmount: topUp?.amount,
+    runs,
+  });
+  if (values.json) console.log(JSON.stringify(bankrollResults, null, 2));
+  else printBankrollResults(bankrollResults);
+  process.exit(0);
+}
+
+// Ratings are updated game by game and saved once the run completes
+const ratings = values.rate ? RatingBook.load(ratingsFile) : null;
+const ratingsBefore = new Map(ratings?.leaderboard().map(e => [e.label, e.rating]) ?? []);
+
+function saveRatings(): LeaderboardEntry[] | undefined {
+  if (!ratings) return undefined;
+  ratings.save(ratingsFile);
+  return ratings.leaderboard();
+}
+
+if (values.format) {
+  const format = resolveFormat(values.format);
+  if (parseInt(values.workers!, 10) > 1 || values.record || values.verbose || values.clock) {
+    console.error('--workers, --record, --verbose and --clock are not supported with --format');
+    process.exit(1);
+  }
+  if (!values.json) {
+    console.log(`Running ${format} tournament: ${specs.map(s => s.label).join(', ')}`);
+    console.log(`  ${numGames} games × ${configs.length} config(s) per match${seed != null ? ` | seed: ${seed}` : ''}`);
+  }
+  const formatResults = runFormatTournament(format, specs, configs, {
+    gamesPerMatch: numGames,
+    seed,
+    swissRounds: values.rounds ? parseInt(values.rounds, 10) : undefined,
+    onGame: ratings ? (record, pair) => ratings.rateRecord(record, pair.map(s => s.label)) : undefined,
+  });
+  const leaderboard = saveRatings();
+  if (values.json) {
+    console.log(JSON.stringify({ ...formatResults, ratings: leaderboard }, null, 2));
+  } else {
+    printFormatResults(formatResults);
+    if (leaderboard) printLeaderboard(leaderboard, ratingsBefore);
+  }
+  process.exit(0);
+}
+
 // Create agents
 const agents = createAgentsFromSpecs(specs, 100);
 
+const workers = parseInt(values.workers!, 10);
+if (workers > 1 && (values.record || values.verbose)) {
+  console.error('--record and --verbose are not supported with --workers > 1');
+  process.exit(1);
+}
+
 if (!values.json) {
   console.log(`Running tournament: ${specs.map(s => s.label).join(' vs ')}`);
-  console.log(`  ${numGames} games × ${configs.length} config(s)${seed != null ? ` | seed: ${seed}` : ''}`);
+  console.log(`  ${numGames} games × ${configs.length} config(s)${seed != null ? ` | seed: ${seed}` : ''}${workers > 1 ? ` | ${workers} workers` : ''}${values.clock ? ' | round clock' : ''}`);
 }
 
-const results = runTournament(agents, configs, numGames, {
-  verbose: values.verbose,
-  seed,
-});
+const labels = specs.map(s => s.label);
+const records: GameRecord[] = [];
+const onGame = (record: GameRecord): void => {
+  records.push(record);
+  ratings?.rateRecord(record, labels);
+};
+
+const results = workers > 1
+  ? await runTournamentParallel(specs, configs, numGames, { workers, seed, onGame, clock: values.clock })
+  : runTournament(agents, configs, numGames, {
+    verbose: values.verbose,
+    seed,
+    recorder: values.record ? new ReplayFileWriter(values.record) : undefined,
+    onGame,
+    clock: values.clock,
+  });
+const leaderboard = saveRatings();
+
+// Significance: intervals per strategy, paired test when exactly two strategies
+const strategyStats = computeStrategyStats(records, labels, { seed: results.seed });
+const distinctLabels = [...new Set(labels)];
+const byRoi = aggregateByStrategy(results).sort((a, b) => b.roi - a.roi).map(g => g.label);
+const headToHead = distinctLabels.length === 2
+  ? computeHeadToHead(records, labels, byRoi[0], byRoi[1], { seed: results.seed })
+  : null;
 
 if (values.json) {
   const jsonOutput = {
     ...results,
     strategies: aggregateByStrategy(results),
     agents: specs.map(s => s.label),
+    stats: strategyStats,
+    headToHead,
+    ratings: leaderboard,
   };
   console.log(JSON.stringify(jsonOutput, null, 2));
 } else {
-  printResults(results, specs);
+  printResults(results, specs, strategyStats, headToHead);
+  if (leaderboard) printLeaderboard(leaderboard, ratingsBefore);
 }
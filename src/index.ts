@@ -30,7 +30,19 @@ export {
   parseGameState,
   getTeamById,
   bfsDistance,
+  bfsPath,
+  aStarPath,
   floodFillSize,
+  timeAwareFloodFill,
+  snakeGrows,
+  analyzeMoveSpace,
+  enumerateSafePaths,
+  bestPathToTarget,
+  MAX_LOOKAHEAD_DEPTH,
+  analyzeFruitAccessibility,
+  planFruitRoute,
+  estimateRoundsToWin,
+  fruitSpawnMinDistance,
 } from './lib/game-state.js';
 
 export type {
@@ -45,8 +57,21 @@ export type {
   ParsedTeam,
   ClosestFruitResult,
   BfsResult,
+  PathResult,
+  AStarOptions,
+  AStarResult,
+  MoveSpace,
   GameState,
   ParsedGameState,
+  LookaheadOptions,
+  PathFruit,
+  LookaheadPath,
+  TargetPath,
+  RouteHazard,
+  FruitRoute,
+  TeamAccessibility,
+  RoutePlanOptions,
+  FruitTour,
 } from './lib/game-state.js';
 
 // Strategies
@@ -55,11 +80,14 @@ export {
   listStrategiesWithInfo,
   BaseStrategy,
 } from './lib/strategies/index.js';
+export { voteDelay, overrideKind } from './lib/strategies/base.js';
 
 export type {
   VoteResult,
   VoteAction,
   VoteSkip,
+  VoteTiming,
+  OverrideKind,
   AgentState,
 } from './lib/strategies/base.js';
 
@@ -86,10 +114,17 @@ export {
   SimAgent,
   simulateGame,
   runTournament,
+  planTournament,
+  playTournamentGames,
+  applyGameRecord,
+  summarizeTournament,
   createGameState,
+  spawnLayoutError,
   advanceRound,
   printBoard,
   RODEO_CYCLES,
+  TEAM_CONFIG,
+  teamsForConfig,
   createRNG,
   shuffleArray,
 } from './lib/simulator.js';
@@ -99,12 +134,133 @@ export type {
   SimulateOptions,
   SimulateGameResult,
   TournamentResults,
+  TournamentGame,
+  GameRecord,
+  GameRecordAgent,
   RodeoCycleConfig,
+  TeamConfig,
+  CollisionMode,
+  SpawnPosition,
   AdvanceResult,
   Strategy,
   RNG,
 } from './lib/simulator.js';
 
+// Payout models
+export { PAYOUT_MODELS, getPayoutModel, listPayoutModels, computePayouts } from './lib/payouts.js';
+export type { PayoutEntrant, PayoutModel, PayoutResult } from './lib/payouts.js';
+
+// Monte Carlo win probabilities
+export {
+  estimateWinProbabilities,
+  toSimGameState,
+  getRolloutPolicy,
+  playMove,
+  steerToward,
+  ROLLOUT_POLICIES,
+} from './lib/rollout.js';
+export type { RolloutMove, RolloutPolicy, RolloutOptions, WinProbabilities } from './lib/rollout.js';
+
+// Win-probability table calibration
+export {
+  CalibrationRecorder,
+  analyzeCalibration,
+  runCalibration,
+  reliabilityCurve,
+  brierScore,
+  logLoss,
+  fitLogistic,
+  predictLogistic,
+  logisticFeatures,
+  LOGISTIC_FEATURES,
+  PREDICTORS,
+} from './lib/calibration.js';
+export type {
+  PredictorName,
+  CalibrationSample,
+  ReliabilityBin,
+  PredictorReport,
+  TableCell,
+  LogisticFit,
+  CalibrationReport,
+  CalibrationOptions,
+} from './lib/calibration.js';
+
+// Virtual round clock
+export { runClockedRound } from './lib/round-clock.js';
+export type { ClockOptions, ClockedVote, ClockedRoundResult } from './lib/round-clock.js';
+
+// Rodeo configs from JSON
+export {
+  validateRodeoConfig,
+  parseRodeoConfigs,
+  loadRodeoConfigs,
+  loadRodeoConfigFiles,
+  findRodeoConfig,
+  normalizeConfigName,
+} from './lib/rodeo-config.js';
+
+// Agent specs, parallel tournaments and tournament formats
+export { parseAgentSpec, createAgentsFromSpecs } from './lib/agent-specs.js';
+export type { AgentSpec } from './lib/agent-specs.js';
+export { runTournamentParallel } from './lib/parallel.js';
+export type { ParallelTournamentOptions } from './lib/parallel.js';
+export { runFormatTournament, TOURNAMENT_FORMATS } from './lib/tournament-formats.js';
+export type { TournamentFormat, FormatOptions, FormatResults, MatchResult, Standing } from './lib/tournament-formats.js';
+
+// Bankroll tournaments
+export { runBankrollTournament } from './lib/bankroll.js';
+export type {
+  BankrollOptions,
+  BankrollResults,
+  BankrollRun,
+  BankrollAgentRun,
+  BankrollSurvival,
+  BankrollDistribution,
+} from './lib/bankroll.js';
+
+// Tournament statistics
+export {
+  gameSamples,
+  profitSamples,
+  bootstrapCI,
+  pairedPermutationTest,
+  computeStrategyStats,
+  computeHeadToHead,
+} from './lib/stats.js';
+export type { GameSample, Interval, StatsOptions, StrategyStats, HeadToHeadStats } from './lib/stats.js';
+
+// Strategy ratings
+export { RatingBook, conservativeRating, DEFAULT_MU, DEFAULT_SIGMA } from './lib/ratings.js';
+export type { Rating, RatingsFile, LeaderboardEntry } from './lib/ratings.js';
+
+// Game recording and replay
+export {
+  REPLAY_FORMAT_VERSION,
+  ReplayFileWriter,
+  LiveReplayRecorder,
+  parseReplay,
+  readReplay,
+  inferRoundResult,
+} from './lib/replay.js';
+
+export type {
+  ReplayEntry,
+  ReplayHeader,
+  ReplayRound,
+  ReplayRoundResult,
+  ReplayEnd,
+  ReplayVote,
+  ReplayPayout,
+  ReplayAgent,
+  ReplayGame,
+  ReplayRecorder,
+} from './lib/replay.js';
+
+// Mock server (offline testing)
+export { MockServer } from './lib/mock-server.js';
+export type { MockServerOptions } from './lib/mock-server.js';
+
 // Telegram logging (optional)
 export { TelegramLogger, formatVote, formatGameEnd, formatTeamSwitch, formatError, formatWarning } from './lib/telegram.js';
 export type { TelegramConfig } from './lib/telegram.js';
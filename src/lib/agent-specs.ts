@@ -0,0 +1,52 @@
+/**
+ * Agent specs — compact text descriptions of simulated agents.
+ *
+ * Format: strategy[:option[:option]] where each option is `key=value`
+ * or a bare `key` (boolean true). Examples: `ev`, `ev:contrarian`,
+ * `aggressive:maxCounterExtensions=3`.
+ *
+ * Specs are plain data, so they can be sent to worker threads and turned
+ * back into agents there.
+ */
+
+import { getStrategy } from './strategies/index.js';
+import { SimAgent } from './simulator.js';
+
+export interface AgentSpec {
+  label: string;       // display label (e.g. "ev" or "ev:contrarian")
+  strategyName: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Parse a single spec string into an AgentSpec
+ */
+export function parseAgentSpec(spec: string): AgentSpec {
+  const [name, ...optParts] = spec.split(':');
+  const options: Record<string, unknown> = {};
+  for (const part of optParts) {
+    // key=value or just key (boolean true)
+    const eqIdx = part.indexOf('=');
+    if (eqIdx !== -1) {
+      options[part.slice(0, eqIdx)] = part.slice(eqIdx + 1);
+    } else {
+      options[part] = true;
+    }
+  }
+  return { label: spec, strategyName: name, options };
+}
+
+/**
+ * Build one SimAgent per spec. Agents are named `<label>#<index>`.
+ */
+export function createAgentsFromSpecs(specs: AgentSpec[], balance: number): SimAgent[] {
+  return specs.map((spec, i) => {
+    const strategy = getStrategy(spec.strategyName, spec.options);
+    return new SimAgent(
+      `agent-${i}`,
+      `${spec.label}#${i}`,
+      strategy,
+      balance,
+    );
+  });
+}
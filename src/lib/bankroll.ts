@@ -0,0 +1,226 @@
+/**
+ * Bankroll tournaments: balances carry over from game to game.
+ *
+ * Normal tournaments hand every agent a fresh balance before each game,
+ * so nobody can go broke. Here each agent starts with a bankroll, keeps
+ * whatever it has left (plus winnings) between games, and sits out once
+ * it can't cover the minimum bid. Optional top-ups add money to every
+ * agent at a fixed interval, like a periodic wallet deposit.
+ *
+ * Games from all configs are played in a shuffled order, and the whole
+ * tournament is repeated over several runs (with derived seeds) to get
+ * survival curves and final-bankroll distributions per strategy.
+ */
+
+import { createAgentsFromSpecs } from './agent-specs.js';
+import type { AgentSpec } from './agent-specs.js';
+import { createRNG, planTournament, shuffleArray, simulateGame } from './simulator.js';
+import type { RodeoCycleConfig, SimAgent } from './simulator.js';
+
+export interface BankrollOptions {
+  seed?: number;
+  /** Starting bankroll per agent (default: 100) */
+  startingBankroll?: number;
+  /** Add topUpAmount to every agent before every Nth game (default: never) */
+  topUpEvery?: number;
+  topUpAmount?: number;
+  /** Independent repetitions of the whole tournament (default: 10) */
+  runs?: number;
+}
+
+export interface BankrollSurvival {
+  label: string;
+  /** Fraction of this label's agents (over all runs) able to cover minBid after each game */
+  solvent: number[];
+}
+
+export interface BankrollDistribution {
+  label: string;
+  /** Agents sampled (seats × runs) */
+  samples: number;
+  /** Fraction that went broke at least once */
+  bustRate: number;
+  /** Mean game index of the first bust, among agents that busted */
+  meanBustGame: number | null;
+  mean: number;
+  min: number;
+  p10: number;
+  median: number;
+  p90: number;
+  max: number;
+  /** Mean money added by top-ups per agent */
+  deposited: number;
+}
+
+export interface BankrollAgentRun {
+  name: string;
+  label: string;
+  finalBankroll: number;
+  deposited: number;
+  peak: number;
+  /** Game index after which the agent first couldn't cover minBid (null = never) */
+  bustedAt: number | null;
+  gamesPlayed: number;
+  wins: number;
+}
+
+export interface BankrollRun {
+  seed: number;
+  /** Games actually played (a game is skipped while fewer than two agents can cover its minBid) */
+  gamesPlayed: number;
+  agents: BankrollAgentRun[];
+}
+
+export interface BankrollResults {
+  seed: number;
+  startingBankroll: number;
+  topUp: { every: number; amount: number } | null;
+  /** Planned games per run */
+  games: number;
+  runs: BankrollRun[];
+  survival: BankrollSurvival[];
+  finalBankroll: BankrollDistribution[];
+}
+
+/** Cheapest bid across the configs: below this an agent can't play at all */
+function minBuyIn(configs: RodeoCycleConfig[]): number {
+  return Math.min(...configs.map(c => c.initialMinBid || 1));
+}
+
+function runOnce(
+  specs: AgentSpec[],
+  configs: RodeoCycleConfig[],
+  numGamesPerConfig: number,
+  seed: number,
+  options: Required<Pick<BankrollOptions, 'startingBankroll'>> & BankrollOptions,
+): { run: BankrollRun; solvent: boolean[][] } {
+  const { games } = planTournament(configs, numGamesPerConfig, seed);
+  shuffleArray(games, createRNG(seed).rng);
+  const agents = createAgentsFromSpecs(specs, options.startingBankroll);
+  const buyIn = minBuyIn(configs);
+
+  const deposited = agents.map(() => 0);
+  const peak = agents.map(a => a.balance);
+  const bustedAt: (number | null)[] = agents.map(() => null);
+  // solvent[game][agent]
+  const solvent: boolean[][] = [];
+  let gamesPlayed = 0;
+
+  const canPlay = (a: SimAgent, config: RodeoCycleConfig): boolean => a.balance >= (config.initialMinBid || 1);
+
+  for (let g = 0; g < games.length; g++) {
+    if (options.topUpEvery && options.topUpAmount && g > 0 && g % options.topUpEvery === 0) {
+      agents.forEach((a, i) => {
+        a.balance += options.topUpAmount!;
+        deposited[i] += options.topUpAmount!;
+      });
+    }
+
+    const config = configs[games[g].configIndex];
+    const seated = agents.filter(a => canPlay(a, config));
+    if (seated.length >= 2) {
+      simulateGame(seated, config, { seed: games[g].seed, maxRounds: 200, bankroll: true });
+      gamesPlayed++;
+    }
+
+    agents.forEach((a, i) => {
+      peak[i] = Math.max(peak[i], a.balance);
+      if (a.balance < buyIn && bustedAt[i] === null) bustedAt[i] = g;
+    });
+    solvent.push(agents.map(a => a.balance >= buyIn));
+  }
+
+  return {
+    run: {
+      seed,
+      gamesPlayed,
+      agents: agents.map((a, i) => ({
+        name: a.name,
+        label: specs[i].label,
+        finalBankroll: a.balance,
+        deposited: deposited[i],
+        peak: peak[i],
+        bustedAt: bustedAt[i],
+        gamesPlayed: a.gamesPlayed,
+        wins: a.wins,
+      })),
+    },
+    solvent,
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Run a bankroll tournament from agent specs.
+ */
+export function runBankrollTournament(
+  specs: AgentSpec[],
+  configs: RodeoCycleConfig[],
+  numGamesPerConfig: number = 50,
+  options: BankrollOptions = {},
+): BankrollResults {
+  const startingBankroll = options.startingBankroll ?? 100;
+  const numRuns = options.runs ?? 10;
+  const { rng: masterRng, seed } = createRNG(options.seed);
+
+  const runs: BankrollRun[] = [];
+  const solventByRun: boolean[][][] = [];
+  for (let r = 0; r < numRuns; r++) {
+    const runSeed = (masterRng() * 0xffffffff) >>> 0;
+    const { run, solvent } = runOnce(specs, configs, numGamesPerConfig, runSeed, { ...options, startingBankroll });
+    runs.push(run);
+    solventByRun.push(solvent);
+  }
+
+  const labels = [...new Set(specs.map(s => s.label))];
+  const totalGames = configs.length * numGamesPerConfig;
+
+  const survival: BankrollSurvival[] = labels.map(label => {
+    const seats = specs.map((s, i) => (s.label === label ? i : -1)).filter(i => i >= 0);
+    const solvent: number[] = [];
+    for (let g = 0; g < totalGames; g++) {
+      let count = 0;
+      for (const runSolvent of solventByRun) {
+        for (const i of seats) if (runSolvent[g][i]) count++;
+      }
+      solvent.push(count / (seats.length * numRuns));
+    }
+    return { label, solvent };
+  });
+
+  const finalBankroll: BankrollDistribution[] = labels.map(label => {
+    const entries = runs.flatMap(r => r.agents.filter(a => a.label === label));
+    const finals = entries.map(a => a.finalBankroll).sort((a, b) => a - b);
+    const busts = entries.filter(a => a.bustedAt !== null);
+    return {
+      label,
+      samples: entries.length,
+      bustRate: busts.length / entries.length,
+      meanBustGame: busts.length > 0 ? busts.reduce((s, a) => s + a.bustedAt!, 0) / busts.length : null,
+      mean: finals.reduce((s, v) => s + v, 0) / finals.length,
+      min: finals[0],
+      p10: quantile(finals, 0.1),
+      median: quantile(finals, 0.5),
+      p90: quantile(finals, 0.9),
+      max: finals[finals.length - 1],
+      deposited: entries.reduce((s, a) => s + a.deposited, 0) / entries.length,
+    };
+  });
+
+  return {
+    seed,
+    startingBankroll,
+    topUp: options.topUpEvery && options.topUpAmount ? { every: options.topUpEvery, amount: options.topUpAmount } : null,
+    games: totalGames,
+    runs,
+    survival,
+    finalBankroll,
+  };
+}
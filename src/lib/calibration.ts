@@ -0,0 +1,330 @@
+/**
+ * Calibration of the expected-value strategy's win-probability tables.
+ *
+ * `estimateWinProb` and `calculateExpectedValue` (via expectedValueWinProb)
+ * turn a team's position — fruits still needed, distance to the closest
+ * fruit, share of the voting — into a win probability using hand-tuned
+ * tables. This module checks them against simulated games:
+ *
+ * - every round of every game is a decision point; each team that still
+ *   has reachable fruit yields one sample with both predictions
+ * - when the game ends, each sample is labelled with whether that team won
+ * - the report has a reliability curve and Brier score per predictor, the
+ *   observed win rate per (fruits needed × distance) cell as a replacement
+ *   table, and a logistic regression fitted to the same features
+ *
+ * Samples are collected through the ReplayRecorder hook, so any simulated
+ * run (or any recorder-fed source) can be calibrated.
+ */
+
+import { parseGameState } from './game-state.js';
+import type { ParsedGameState } from './game-state.js';
+import { createAgentsFromSpecs } from './agent-specs.js';
+import type { AgentSpec } from './agent-specs.js';
+import { runTournament } from './simulator.js';
+import type { RodeoCycleConfig } from './simulator.js';
+import type { ReplayEntry, ReplayRecorder } from './replay.js';
+import { ExpectedValueStrategy } from './strategies/expected-value.js';
+
+export type PredictorName = 'estimateWinProb' | 'calculateExpectedValue';
+
+export const PREDICTORS: PredictorName[] = ['estimateWinProb', 'calculateExpectedValue'];
+
+/** One team's position at one decision point, and how its game ended */
+export interface CalibrationSample {
+  config: string;
+  team: string;
+  /** Teams in the game */
+  teams: number;
+  fruitsNeeded: number;
+  /** Time-aware BFS distance to the team's closest fruit */
+  dist: number;
+  /** Team pool / all pools (1 / teams before anyone has voted) */
+  controlShare: number;
+  predicted: Record<PredictorName, number>;
+  won: boolean;
+}
+
+export interface ReliabilityBin {
+  lo: number;
+  hi: number;
+  count: number;
+  meanPredicted: number;
+  /** Observed win rate in the bin */
+  observed: number;
+}
+
+export interface PredictorReport {
+  name: PredictorName;
+  /** Mean squared error of the predictions (lower is better) */
+  brier: number;
+  logLoss: number;
+  bins: ReliabilityBin[];
+}
+
+/** Observed win rate for one (fruits needed, distance) cell */
+export interface TableCell {
+  fruitsNeeded: number;
+  /** Distance, or the last bucket's lower bound (see distPlus) */
+  dist: number;
+  /** True for the open-ended last distance bucket */
+  distPlus: boolean;
+  count: number;
+  observed: number;
+  /** Mean prediction of each table in this cell */
+  current: Record<PredictorName, number>;
+}
+
+export interface LogisticFit {
+  features: string[];
+  coefficients: number[];
+  brier: number;
+}
+
+export interface CalibrationReport {
+  samples: number;
+  games: number;
+  /** Share of samples whose team won — what a constant prediction would use */
+  baseRate: number;
+  /** Brier score of always predicting baseRate, for reference */
+  baselineBrier: number;
+  predictors: PredictorReport[];
+  table: TableCell[];
+  logistic: LogisticFit;
+}
+
+export interface CalibrationOptions {
+  seed?: number;
+  /** Reliability-curve bins (default: 10) */
+  bins?: number;
+  /** Distances at or above this share one table bucket (default: 6) */
+  maxDist?: number;
+}
+
+/**
+ * ReplayRecorder that turns simulated rounds into calibration samples.
+ * Pass it as `recorder` to simulateGame / runTournament.
+ */
+export class CalibrationRecorder implements ReplayRecorder {
+  readonly samples: CalibrationSample[] = [];
+  games = 0;
+  private pending: CalibrationSample[] = [];
+  private config = '';
+  private readonly ev = new ExpectedValueStrategy();
+
+  record(entry: ReplayEntry): void {
+    if (entry.type === 'header') {
+      this.pending = [];
+      this.config = entry.config?.name ?? 'unknown';
+    } else if (entry.type === 'round') {
+      const parsed = parseGameState(entry.preState);
+      if (parsed?.active) this.pending.push(...this.sample(parsed));
+    } else {
+      for (const s of this.pending) s.won = s.team === entry.winner;
+      this.samples.push(...this.pending);
+      this.pending = [];
+      this.games++;
+    }
+  }
+
+  private sample(parsed: ParsedGameState): CalibrationSample[] {
+    const totalPools = parsed.teams.reduce((sum, t) => sum + (t.pool || 0), 0);
+    const samples: CalibrationSample[] = [];
+    for (const team of parsed.teams) {
+      if (!team.closestFruit) continue;
+      const { bfsDist } = this.ev.bfsClosestFruit(team, parsed);
+      if (bfsDist === Infinity) continue;
+      samples.push({
+        config: this.config,
+        team: team.id,
+        teams: parsed.teams.length,
+        fruitsNeeded: parsed.fruitsToWin - team.score,
+        dist: bfsDist,
+        controlShare: totalPools > 0 ? (team.pool || 0) / totalPools : 1 / parsed.teams.length,
+        predicted: {
+          estimateWinProb: this.ev.estimateWinProb(team, parsed),
+          // As seen by a voter already on the team (no hypothetical extra vote)
+          calculateExpectedValue: this.ev.expectedValueWinProb(team, parsed, true, bfsDist),
+        },
+        won: false,
+      });
+    }
+    return samples;
+  }
+}
+
+// ── Scores ──────────────────────────────────────────────────────────
+
+export function brierScore(predicted: number[], outcomes: boolean[]): number {
+  if (predicted.length === 0) return 0;
+  return predicted.reduce((sum, p, i) => sum + (p - (outcomes[i] ? 1 : 0)) ** 2, 0) / predicted.length;
+}
+
+export function logLoss(predicted: number[], outcomes: boolean[]): number {
+  if (predicted.length === 0) return 0;
+  const eps = 1e-6;
+  return -predicted.reduce((sum, p, i) => {
+    const q = Math.min(Math.max(p, eps), 1 - eps);
+    return sum + (outcomes[i] ? Math.log(q) : Math.log(1 - q));
+  }, 0) / predicted.length;
+}
+
+/**
+ * Equal-width reliability bins over [0, 1]; empty bins are omitted.
+ */
+export function reliabilityCurve(predicted: number[], outcomes: boolean[], bins: number = 10): ReliabilityBin[] {
+  const sums = Array.from({ length: bins }, () => ({ count: 0, predicted: 0, won: 0 }));
+  predicted.forEach((p, i) => {
+    const b = Math.min(bins - 1, Math.max(0, Math.floor(p * bins)));
+    sums[b].count++;
+    sums[b].predicted += p;
+    if (outcomes[i]) sums[b].won++;
+  });
+  return sums
+    .map((s, b) => ({
+      lo: b / bins,
+      hi: (b + 1) / bins,
+      count: s.count,
+      meanPredicted: s.count > 0 ? s.predicted / s.count : 0,
+      observed: s.count > 0 ? s.won / s.count : 0,
+    }))
+    .filter(bin => bin.count > 0);
+}
+
+// ── Logistic regression ─────────────────────────────────────────────
+
+export const LOGISTIC_FEATURES = ['intercept', 'fruitsNeeded', 'dist', '1/teams', 'controlShare'];
+
+export function logisticFeatures(s: Pick<CalibrationSample, 'fruitsNeeded' | 'dist' | 'teams' | 'controlShare'>): number[] {
+  return [1, s.fruitsNeeded, s.dist, 1 / s.teams, s.controlShare];
+}
+
+export function predictLogistic(coefficients: number[], features: number[]): number {
+  const z = features.reduce((sum, x, i) => sum + x * coefficients[i], 0);
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Fit logistic regression by Newton's method (with a small ridge term so
+ * separable or collinear data still converges).
+ */
+export function fitLogistic(X: number[][], y: boolean[], iterations: number = 25, ridge: number = 1e-6): number[] {
+  const k = X[0]?.length ?? 0;
+  let beta = new Array<number>(k).fill(0);
+  for (let it = 0; it < iterations; it++) {
+    const grad = new Array<number>(k).fill(0);
+    const hess = Array.from({ length: k }, (_, i) => Array.from({ length: k }, (_, j) => (i === j ? ridge : 0)));
+    X.forEach((x, n) => {
+      const p = predictLogistic(beta, x);
+      const w = p * (1 - p);
+      const err = p - (y[n] ? 1 : 0);
+      for (let i = 0; i < k; i++) {
+        grad[i] += err * x[i];
+        for (let j = 0; j < k; j++) hess[i][j] += w * x[i] * x[j];
+      }
+    });
+    const step = solve(hess, grad);
+    beta = beta.map((b, i) => b - step[i]);
+    if (Math.max(...step.map(Math.abs)) < 1e-8) break;
+  }
+  return beta;
+}
+
+/** Solve A x = b by Gaussian elimination with partial pivoting */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    if (Math.abs(M[col][col]) < 1e-12) continue;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  return M.map((row, i) => (Math.abs(row[i]) < 1e-12 ? 0 : row[n] / row[i]));
+}
+
+// ── Report ──────────────────────────────────────────────────────────
+
+/**
+ * Reliability, Brier scores, the observed-rate table and a logistic fit.
+ */
+export function analyzeCalibration(
+  samples: CalibrationSample[],
+  games: number,
+  options: CalibrationOptions = {},
+): CalibrationReport {
+  const bins = options.bins ?? 10;
+  const maxDist = options.maxDist ?? 6;
+  const outcomes = samples.map(s => s.won);
+  const baseRate = samples.length > 0 ? outcomes.filter(Boolean).length / samples.length : 0;
+
+  const predictors: PredictorReport[] = PREDICTORS.map(name => {
+    const predicted = samples.map(s => s.predicted[name]);
+    return {
+      name,
+      brier: brierScore(predicted, outcomes),
+      logLoss: logLoss(predicted, outcomes),
+      bins: reliabilityCurve(predicted, outcomes, bins),
+    };
+  });
+
+  // Observed win rate per cell, next to what each table predicts there
+  const cells = new Map<string, { fruitsNeeded: number; dist: number; samples: CalibrationSample[] }>();
+  for (const s of samples) {
+    const dist = Math.min(s.dist, maxDist);
+    const key = `${s.fruitsNeeded}:${dist}`;
+    if (!cells.has(key)) cells.set(key, { fruitsNeeded: s.fruitsNeeded, dist, samples: [] });
+    cells.get(key)!.samples.push(s);
+  }
+  const table: TableCell[] = [...cells.values()]
+    .sort((a, b) => a.fruitsNeeded - b.fruitsNeeded || a.dist - b.dist)
+    .map(cell => ({
+      fruitsNeeded: cell.fruitsNeeded,
+      dist: cell.dist,
+      distPlus: cell.dist === maxDist,
+      count: cell.samples.length,
+      observed: cell.samples.filter(s => s.won).length / cell.samples.length,
+      current: Object.fromEntries(PREDICTORS.map(name => [
+        name,
+        cell.samples.reduce((sum, s) => sum + s.predicted[name], 0) / cell.samples.length,
+      ])) as Record<PredictorName, number>,
+    }));
+
+  const X = samples.map(logisticFeatures);
+  const coefficients = samples.length > 0 ? fitLogistic(X, outcomes) : LOGISTIC_FEATURES.map(() => 0);
+
+  return {
+    samples: samples.length,
+    games,
+    baseRate,
+    baselineBrier: brierScore(samples.map(() => baseRate), outcomes),
+    predictors,
+    table,
+    logistic: {
+      features: LOGISTIC_FEATURES,
+      coefficients,
+      brier: brierScore(X.map(x => predictLogistic(coefficients, x)), outcomes),
+    },
+  };
+}
+
+/**
+ * Simulate a tournament with the given agents and calibrate the tables
+ * against it.
+ */
+export function runCalibration(
+  specs: AgentSpec[],
+  configs: RodeoCycleConfig[],
+  numGamesPerConfig: number = 100,
+  options: CalibrationOptions = {},
+): CalibrationReport {
+  const recorder = new CalibrationRecorder();
+  const agents = createAgentsFromSpecs(specs, 100);
+  runTournament(agents, configs, numGamesPerConfig, { seed: options.seed, recorder });
+  return analyzeCalibration(recorder.samples, recorder.games, options);
+}
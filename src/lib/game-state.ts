@@ -51,6 +51,13 @@ export interface BfsResult {
   firstDir: Direction | null;
 }
 
+export interface PathResult extends BfsResult {
+  /** Cells from the first step to the target (empty when unreachable or already there) */
+  path: HexPos[];
+  /** Moves along the path, one per cell */
+  directions: Direction[];
+}
+
 export interface GameState {
   snake?: Snake;
   gridSize?: GridSize;
@@ -59,6 +66,7 @@ export interface GameState {
   prizePool?: number;
   minBid?: number;
   countdown?: number;
+  totalRoundTime?: number;
   config?: {
     initialMinBid?: number;
     fruitsToWin?: number;
@@ -324,6 +332,15 @@ export function countExits(
   return exits;
 }
 
+/**
+ * Fruit never spawns closer than this to the center of the board
+ */
+export function fruitSpawnMinDistance(radius: number): number {
+  if (radius === 2) return 1;
+  if (radius === 3) return 2;
+  return Math.floor(radius * 0.5);
+}
+
 // ---------------------------------------------------------------------------
 // Round timing
 // ---------------------------------------------------------------------------
@@ -410,6 +427,33 @@ interface BfsNode {
   r: number;
   dist: number;
   firstDir: Direction;
+  /** Queue index of the previous cell (-1 = a neighbour of the start) */
+  parent: number;
+  dir: Direction;
+}
+
+/**
+ * Body cells as obstacles: key -> the move count at which the cell
+ * becomes passable (Infinity unless timeAware).
+ */
+function bodyObstacles(gameState: GameState, excludeHead: boolean, timeAware: boolean): Map<string, number> {
+  const body = gameState.snake?.body || [];
+  const bodySlice = excludeHead ? body.slice(1) : body;
+  const startIdx = excludeHead ? 1 : 0;
+
+  // Build obstacle map: key -> clearTime (when it becomes passable)
+  const obstacleClearTime = new Map<string, number>();
+  for (let i = 0; i < bodySlice.length; i++) {
+    const seg = bodySlice[i];
+    const key = `${seg.q},${seg.r}`;
+    const bodyIdx = startIdx + i;
+    const clearTime = timeAware ? (body.length - bodyIdx) : Infinity;
+    const existing = obstacleClearTime.get(key);
+    if (existing === undefined || clearTime < existing) {
+      obstacleClearTime.set(key, clearTime);
+    }
+  }
+  return obstacleClearTime;
 }
 
 /**
@@ -429,25 +473,25 @@ export function bfsDistance(
   excludeHead: boolean = true,
   timeAware: boolean = false,
 ): BfsResult {
+  const { distance, firstDir } = bfsPath(from, to, gameState, excludeHead, timeAware);
+  return { distance, firstDir };
+}
+
+/**
+ * bfsDistance with the route itself: the cells from the first step to the
+ * target, and the moves that get there. Same search, same semantics.
+ */
+export function bfsPath(
+  from: HexPos,
+  to: HexPos,
+  gameState: GameState,
+  excludeHead: boolean = true,
+  timeAware: boolean = false,
+): PathResult {
   const radius = gameState.gridSize?.radius || 3;
   const gridType = detectGridType(gameState);
   const dirEntries = getDirectionsForGrid(gridType);
-  const body = gameState.snake?.body || [];
-  const bodySlice = excludeHead ? body.slice(1) : body;
-  const startIdx = excludeHead ? 1 : 0;
-
-  // Build obstacle map: key -> clearTime (when it becomes passable)
-  const obstacleClearTime = new Map<string, number>();
-  for (let i = 0; i < bodySlice.length; i++) {
-    const seg = bodySlice[i];
-    const key = `${seg.q},${seg.r}`;
-    const bodyIdx = startIdx + i;
-    const clearTime = timeAware ? (body.length - bodyIdx) : Infinity;
-    const existing = obstacleClearTime.get(key);
-    if (existing === undefined || clearTime < existing) {
-      obstacleClearTime.set(key, clearTime);
-    }
-  }
+  const obstacleClearTime = bodyObstacles(gameState, excludeHead, timeAware);
 
   const isBlocked = (key: string, dist: number): boolean => {
     const clearTime = obstacleClearTime.get(key);
@@ -458,11 +502,22 @@ export function bfsDistance(
   const start = `${from.q},${from.r}`;
   const goal = `${to.q},${to.r}`;
 
-  if (start === goal) return { distance: 0, firstDir: null };
+  if (start === goal) return { distance: 0, firstDir: null, path: [], directions: [] };
 
   const visited = new Set<string>([start]);
   const queue: BfsNode[] = [];
 
+  /** Walk parents back from a queue entry (or -1 after the goal's own step) */
+  const route = (parent: number, last: HexPos, lastDir: Direction): PathResult => {
+    const path: HexPos[] = [last];
+    const directions: Direction[] = [lastDir];
+    for (let i = parent; i !== -1; i = queue[i].parent) {
+      path.unshift({ q: queue[i].q, r: queue[i].r });
+      directions.unshift(queue[i].dir);
+    }
+    return { distance: path.length, firstDir: directions[0], path, directions };
+  };
+
   for (const [dir, offset] of dirEntries) {
     const nq = from.q + offset.q;
     const nr = from.r + offset.r;
@@ -471,17 +526,18 @@ export function bfsDistance(
     if (!isInBounds(nq, nr, radius, gridType)) continue;
     if (isBlocked(key, 1)) continue;
 
-    if (key === goal) return { distance: 1, firstDir: dir };
+    if (key === goal) return route(-1, { q: nq, r: nr }, dir);
 
     visited.add(key);
-    queue.push({ q: nq, r: nr, dist: 1, firstDir: dir });
+    queue.push({ q: nq, r: nr, dist: 1, firstDir: dir, parent: -1, dir });
   }
 
   let head = 0;
   while (head < queue.length) {
-    const cur = queue[head++];
+    const curIdx = head++;
+    const cur = queue[curIdx];
 
-    for (const [, offset] of dirEntries) {
+    for (const [dir, offset] of dirEntries) {
       const nq = cur.q + offset.q;
       const nr = cur.r + offset.r;
       const key = `${nq},${nr}`;
@@ -491,14 +547,106 @@ export function bfsDistance(
       if (isBlocked(key, newDist)) continue;
       if (visited.has(key)) continue;
 
-      if (key === goal) return { distance: newDist, firstDir: cur.firstDir };
+      if (key === goal) return route(curIdx, { q: nq, r: nr }, dir);
 
       visited.add(key);
-      queue.push({ q: nq, r: nr, dist: newDist, firstDir: cur.firstDir });
+      queue.push({ q: nq, r: nr, dist: newDist, firstDir: cur.firstDir, parent: curIdx, dir });
+    }
+  }
+
+  return { distance: Infinity, firstDir: null, path: [], directions: [] };
+}
+
+export interface AStarOptions {
+  /**
+   * Extra cost of entering `cell` on move `step` (1-based), on top of 1
+   * per move — e.g. to steer clear of walls or wrong-team fruit. Negative
+   * values count as 0, so the grid-distance heuristic stays admissible.
+   */
+  cost?: (cell: HexPos, step: number, gameState: GameState) => number;
+  /** Treat the head as an obstacle too (default: true = head excluded, as in bfsDistance) */
+  excludeHead?: boolean;
+  /** Tail segments clear over time, as in bfsDistance (default: false) */
+  timeAware?: boolean;
+}
+
+export interface AStarResult extends PathResult {
+  /** Total cost of the route: moves plus the cost function's extras */
+  cost: number;
+}
+
+/**
+ * A* cheapest route from a position to a target under a per-cell cost
+ * function. With no cost function it finds a shortest path, like bfsPath.
+ * With timeAware, a body cell is passable if the route reaching it has
+ * taken at least as many moves as the segment needs to clear.
+ */
+export function aStarPath(
+  from: HexPos,
+  to: HexPos,
+  gameState: GameState,
+  options: AStarOptions = {},
+): AStarResult {
+  const radius = gameState.gridSize?.radius || 3;
+  const gridType = detectGridType(gameState);
+  const dirEntries = getDirectionsForGrid(gridType);
+  const obstacleClearTime = bodyObstacles(gameState, options.excludeHead ?? true, options.timeAware ?? false);
+  const unreachable: AStarResult = { distance: Infinity, firstDir: null, path: [], directions: [], cost: Infinity };
+
+  const start = `${from.q},${from.r}`;
+  const goal = `${to.q},${to.r}`;
+  if (start === goal) return { distance: 0, firstDir: null, path: [], directions: [], cost: 0 };
+
+  interface AStarNode {
+    pos: HexPos;
+    key: string;
+    g: number;
+    f: number;
+    steps: number;
+    parent: AStarNode | null;
+    dir: Direction | null;
+  }
+
+  const best = new Map<string, number>([[start, 0]]);
+  const closed = new Set<string>();
+  const open: AStarNode[] = [{ pos: from, key: start, g: 0, f: gridDistance(from, to, gridType), steps: 0, parent: null, dir: null }];
+
+  while (open.length > 0) {
+    // Small grids: a linear scan for the cheapest open node is plenty
+    let idx = 0;
+    for (let i = 1; i < open.length; i++) if (open[i].f < open[idx].f) idx = i;
+    const cur = open.splice(idx, 1)[0];
+    if (closed.has(cur.key)) continue;
+    closed.add(cur.key);
+
+    if (cur.key === goal) {
+      const path: HexPos[] = [];
+      const directions: Direction[] = [];
+      for (let n: AStarNode | null = cur; n && n.dir; n = n.parent) {
+        path.unshift(n.pos);
+        directions.unshift(n.dir);
+      }
+      return { distance: path.length, firstDir: directions[0], path, directions, cost: cur.g };
+    }
+
+    for (const [dir, offset] of dirEntries) {
+      const pos = { q: cur.pos.q + offset.q, r: cur.pos.r + offset.r };
+      const key = `${pos.q},${pos.r}`;
+      const steps = cur.steps + 1;
+
+      if (!isInBounds(pos.q, pos.r, radius, gridType)) continue;
+      if (closed.has(key)) continue;
+      const clearTime = obstacleClearTime.get(key);
+      if (clearTime !== undefined && steps < clearTime) continue;
+
+      const g = cur.g + 1 + Math.max(0, options.cost?.(pos, steps, gameState) ?? 0);
+      if (g >= (best.get(key) ?? Infinity)) continue;
+      best.set(key, g);
+      open.push({ pos, key, g, f: g + gridDistance(pos, to, gridType), steps, parent: cur, dir });
     }
   }
 
-  return { distance: Infinity, firstDir: null };
+  return unreachable;
 }
 
 /**
@@ -546,3 +694,548 @@ export function floodFillSize(
 
   return visited.size;
 }
+
+/**
+ * Whether the snake grows on a fruit. A state without the `grow` flag
+ * grows, as the simulator and server do by default.
+ */
+export function snakeGrows(gameState: GameState): boolean {
+  return gameState.config?.grow !== false;
+}
+
+/**
+ * Time-aware flood fill: the area the snake can reach after moving its
+ * head into `pos`, with body segments clearing as it moves (the way
+ * bfsDistance's timeAware mode treats them). Segment body[i] of the
+ * current body clears (body.length - i - 1) moves after this one, or one
+ * move later if the snake grows on this move.
+ *
+ * A segment that hasn't cleared yet when the fill reaches it counts once
+ * the snake could have wandered the area it already has until it does —
+ * so the result is the number of cells it can reach before it would be
+ * trapped. Returns the count including `pos`.
+ */
+export function timeAwareFloodFill(
+  pos: HexPos,
+  gameState: GameState,
+  grows: boolean = false,
+): number {
+  const radius = gameState.gridSize?.radius || 3;
+  const gridType = detectGridType(gameState);
+  const dirEntries = getDirectionsForGrid(gridType);
+  const body = gameState.snake?.body || [];
+
+  // key -> move count (after this move) at which the cell frees up
+  const clearTime = new Map<string, number>();
+  for (let i = 0; i < body.length; i++) {
+    const key = `${body[i].q},${body[i].r}`;
+    const t = body.length - i - 1 + (grows ? 1 : 0);
+    if (t > 0 && (clearTime.get(key) ?? -1) < t) clearTime.set(key, t);
+  }
+
+  const start = `${pos.q},${pos.r}`;
+  clearTime.delete(start);
+  // Cells by the time the snake can first be there, processed in time order
+  const arrival = new Map<string, number>([[start, 0]]);
+  const reached = new Set<string>();
+  const queue: { pos: HexPos; key: string; time: number }[] = [{ pos, key: start, time: 0 }];
+
+  while (queue.length > 0) {
+    let idx = 0;
+    for (let i = 1; i < queue.length; i++) if (queue[i].time < queue[idx].time) idx = i;
+    const cur = queue.splice(idx, 1)[0];
+    if (reached.has(cur.key)) continue;
+    reached.add(cur.key);
+
+    for (const [, offset] of dirEntries) {
+      const nq = cur.pos.q + offset.q;
+      const nr = cur.pos.r + offset.r;
+      const key = `${nq},${nr}`;
+      if (!isInBounds(nq, nr, radius, gridType)) continue;
+      if (reached.has(key)) continue;
+
+      // Waiting for a segment to clear means burning moves in the area
+      // reached so far; with too little room the snake is trapped first
+      const time = Math.max(cur.time + 1, clearTime.get(key) ?? 0);
+      if (time - (cur.time + 1) >= reached.size) continue;
+      if (time >= (arrival.get(key) ?? Infinity)) continue;
+      arrival.set(key, time);
+      queue.push({ pos: { q: nq, r: nr }, key, time });
+    }
+  }
+
+  return reached.size;
+}
+
+/** Room to move after one candidate move */
+export interface MoveSpace {
+  direction: Direction;
+  /** Cells reachable with the body as a permanent obstacle (floodFillSize) */
+  staticArea: number;
+  /** Cells reachable before the snake would be trapped, with the tail clearing as it moves */
+  area: number;
+  /** Eats a fruit (and so grows, if the game's `grow` is on) */
+  eats: boolean;
+}
+
+/**
+ * Static and time-aware reachable area for every valid move.
+ */
+export function analyzeMoveSpace(gameState: GameState): MoveSpace[] {
+  const head = gameState.snake?.body?.[0];
+  if (!head) return [];
+  const grow = snakeGrows(gameState);
+  const fruits = Object.values(gameState.apples || {}).flat();
+
+  return getValidDirections(gameState).map(direction => {
+    const offset = ALL_DIRECTION_OFFSETS[direction];
+    const pos = { q: head.q + offset.q, r: head.r + offset.r };
+    const eats = fruits.some(f => f.q === pos.q && f.r === pos.r);
+    return {
+      direction,
+      staticArea: floodFillSize(pos, gameState, ALL_OPPOSITES[direction]),
+      area: timeAwareFloodFill(pos, gameState, grow && eats),
+      eats,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Lookahead
+// ---------------------------------------------------------------------------
+
+/** Deepest lookahead enumerateSafePaths will search: paths grow as branching^depth */
+export const MAX_LOOKAHEAD_DEPTH = 5;
+
+export interface LookaheadOptions {
+  /** Moves to look ahead (default: 3, capped at MAX_LOOKAHEAD_DEPTH) */
+  depth?: number;
+  /** Keep the tail when a fruit is eaten (default: snakeGrows — the game's `grow` config, else true) */
+  grow?: boolean;
+  /** Only enumerate paths starting with this move */
+  first?: Direction;
+  /** Stop extending a path once its head reaches this cell */
+  target?: HexPos;
+}
+
+/** A fruit eaten along a lookahead path */
+export interface PathFruit {
+  team: string;
+  fruit: HexPos;
+  /** Move (1-based) on which it was eaten */
+  step: number;
+}
+
+export interface LookaheadPath {
+  directions: Direction[];
+  /** Head position after each move */
+  cells: HexPos[];
+  /** Snake body after the last move */
+  body: HexPos[];
+  eaten: PathFruit[];
+  /** Safe moves from the end of the path (0 = trapped) */
+  exits: number;
+}
+
+export interface TargetPath extends LookaheadPath {
+  /** Move (1-based) on which the target was reached; null = not within the lookahead */
+  reachedAt: number | null;
+  /** Time-aware BFS distance from the end of the path to the target (0 once reached) */
+  remaining: number;
+}
+
+function fruitAt(apples: Record<string, HexPos[]>, q: number, r: number): { team: string; fruit: HexPos } | null {
+  for (const [team, fruits] of Object.entries(apples)) {
+    const fruit = fruits.find(f => f.q === q && f.r === r);
+    if (fruit) return { team, fruit };
+  }
+  return null;
+}
+
+/**
+ * Enumerate every safe move sequence up to `depth` moves deep. The body
+ * advances each step: the tail cell frees up as the snake moves (unless
+ * it grows on that move), and eaten fruit leaves the board (respawns are
+ * not predicted). Returns only complete paths — those that reached
+ * `depth`, reached `target`, or got stuck (exits: 0) on the way. Depths
+ * past MAX_LOOKAHEAD_DEPTH are searched to MAX_LOOKAHEAD_DEPTH.
+ */
+export function enumerateSafePaths(gameState: GameState, options: LookaheadOptions = {}): LookaheadPath[] {
+  const depth = Math.min(options.depth ?? 3, MAX_LOOKAHEAD_DEPTH);
+  const grow = options.grow ?? snakeGrows(gameState);
+  const radius = gameState.gridSize?.radius || 3;
+  const gridType = detectGridType(gameState);
+  const dirEntries = getDirectionsForGrid(gridType);
+  const startBody = gameState.snake?.body || [];
+  if (startBody.length === 0) return [];
+
+  const paths: LookaheadPath[] = [];
+
+  const safeMoves = (body: HexPos[], apples: Record<string, HexPos[]>): [Direction, HexPos][] => {
+    const head = body[0];
+    const moves: [Direction, HexPos][] = [];
+    for (const [dir, offset] of dirEntries) {
+      const q = head.q + offset.q;
+      const r = head.r + offset.r;
+      if (!isInBounds(q, r, radius, gridType)) continue;
+      // The tail moves out of the way unless the snake grows on this move;
+      // the neck never does (no reversing into ourselves)
+      const keepsTail = grow && fruitAt(apples, q, r) !== null;
+      const blocking = keepsTail || body.length <= 2 ? body.slice(1) : body.slice(1, -1);
+      if (isOnSnakeBody(q, r, blocking)) continue;
+      moves.push([dir, { q, r }]);
+    }
+    return moves;
+  };
+
+  const extend = (
+    body: HexPos[],
+    apples: Record<string, HexPos[]>,
+    directions: Direction[],
+    cells: HexPos[],
+    eaten: PathFruit[],
+  ): void => {
+    const moves = safeMoves(body, apples);
+    const head = body[0];
+    const reached = options.target !== undefined && directions.length > 0
+      && head.q === options.target.q && head.r === options.target.r;
+    if (directions.length >= depth || reached || moves.length === 0) {
+      paths.push({ directions, cells, body, eaten, exits: moves.length });
+      return;
+    }
+
+    for (const [dir, pos] of moves) {
+      if (directions.length === 0 && options.first && dir !== options.first) continue;
+      const hit = fruitAt(apples, pos.q, pos.r);
+      const nextApples = hit
+        ? { ...apples, [hit.team]: apples[hit.team].filter(f => f !== hit.fruit) }
+        : apples;
+      const nextBody = hit && grow ? [pos, ...body] : [pos, ...body.slice(0, -1)];
+      extend(
+        nextBody,
+        nextApples,
+        [...directions, dir],
+        [...cells, pos],
+        hit ? [...eaten, { ...hit, step: directions.length + 1 }] : eaten,
+      );
+    }
+  };
+
+  extend(startBody, gameState.apples || {}, [], [], []);
+  return paths;
+}
+
+/**
+ * Best lookahead path toward `target`, ranked by:
+ * 1. not trapped at the end of the path
+ * 2. reaching the target sooner
+ * 3. less BFS distance left to the target
+ * 4. eating fewer other fruits on the way
+ * 5. more exits at the end
+ * Returns null when the snake has no safe move at all.
+ */
+export function bestPathToTarget(
+  gameState: GameState,
+  target: HexPos,
+  options: Omit<LookaheadOptions, 'target'> = {},
+): TargetPath | null {
+  const paths = enumerateSafePaths(gameState, { ...options, target })
+    .filter(p => p.directions.length > 0)
+    .map((p): TargetPath => {
+      const last = p.cells[p.cells.length - 1];
+      const reached = last.q === target.q && last.r === target.r;
+      const remaining = reached
+        ? 0
+        : bfsDistance(last, target, { ...gameState, snake: { ...gameState.snake, body: p.body } }, true, true).distance;
+      return { ...p, reachedAt: reached ? p.directions.length : null, remaining };
+    });
+  if (paths.length === 0) return null;
+
+  const otherFruit = (p: TargetPath): number =>
+    p.eaten.filter(e => e.fruit.q !== target.q || e.fruit.r !== target.r).length;
+
+  paths.sort((a, b) =>
+    Number(a.exits === 0) - Number(b.exits === 0)
+    || (a.reachedAt ?? Infinity) - (b.reachedAt ?? Infinity)
+    || (a.remaining === b.remaining ? 0 : a.remaining - b.remaining)
+    || otherFruit(a) - otherFruit(b)
+    || b.exits - a.exits);
+  return paths[0];
+}
+
+// ---------------------------------------------------------------------------
+// Fruit accessibility
+// ---------------------------------------------------------------------------
+
+/** Another team's fruit on or beside a route */
+export interface RouteHazard {
+  team: string;
+  fruit: HexPos;
+}
+
+export interface FruitRoute {
+  fruit: HexPos;
+  /** Moves from the head (time-aware); Infinity = unreachable */
+  distance: number;
+  firstDir: Direction | null;
+  /** Cells from the first step to the fruit */
+  path: HexPos[];
+  /** Other teams' fruits the route runs over: eaten on the way */
+  onRoute: RouteHazard[];
+  /** Other teams' fruits next to the route: one wrong move from being eaten */
+  nearRoute: RouteHazard[];
+}
+
+export interface TeamAccessibility {
+  team: string;
+  /** Every fruit of the team, closest route first */
+  fruits: FruitRoute[];
+  /** Closest fruit reachable without eating another team's fruit (null = none) */
+  clean: FruitRoute | null;
+  /** Closest reachable fruit, rival fruit or not (null = none reachable) */
+  closest: FruitRoute | null;
+}
+
+/** Extra A* cost of a cell holding another team's fruit: detour unless it's much longer */
+const RIVAL_FRUIT_COST = 20;
+
+/**
+ * For every fruit of every team: how many moves the snake needs to reach
+ * it, and which other teams' fruits lie on or next to the way there.
+ * Routes are A* paths (tail-aware) that detour around other teams' fruit
+ * when they can, so a fruit only lists rival fruit on its route when the
+ * detour costs more than RIVAL_FRUIT_COST extra moves or there is none.
+ */
+export function analyzeFruitAccessibility(gameState: GameState): TeamAccessibility[] {
+  const head = gameState.snake?.body?.[0];
+  const apples = gameState.apples || {};
+  const gridType = detectGridType(gameState);
+  const teamIds = gameState.teams?.map(t => t.id) ?? Object.keys(apples);
+  if (!head) return teamIds.map(team => ({ team, fruits: [], clean: null, closest: null }));
+
+  const fruitOwner = new Map<string, string>();
+  for (const [team, fruits] of Object.entries(apples)) {
+    for (const f of fruits) fruitOwner.set(`${f.q},${f.r}`, team);
+  }
+  const dirOffsets = getDirectionsForGrid(gridType).map(([, offset]) => offset);
+
+  return teamIds.map(team => {
+    const rivalAt = (q: number, r: number): string | null => {
+      const owner = fruitOwner.get(`${q},${r}`);
+      return owner !== undefined && owner !== team ? owner : null;
+    };
+
+    const fruits: FruitRoute[] = (apples[team] || []).map(fruit => {
+      const route = aStarPath(head, fruit, gameState, {
+        timeAware: true,
+        cost: (cell) => (rivalAt(cell.q, cell.r) ? RIVAL_FRUIT_COST : 0),
+      });
+
+      const onRoute: RouteHazard[] = [];
+      const nearRoute: RouteHazard[] = [];
+      const seen = new Set<string>();
+      for (const cell of route.path) {
+        const owner = rivalAt(cell.q, cell.r);
+        if (owner) {
+          onRoute.push({ team: owner, fruit: cell });
+          seen.add(`${cell.q},${cell.r}`);
+        }
+      }
+      for (const cell of [head, ...route.path]) {
+        for (const offset of dirOffsets) {
+          const q = cell.q + offset.q;
+          const r = cell.r + offset.r;
+          const key = `${q},${r}`;
+          const owner = rivalAt(q, r);
+          if (!owner || seen.has(key)) continue;
+          seen.add(key);
+          nearRoute.push({ team: owner, fruit: { q, r } });
+        }
+      }
+
+      return { fruit, distance: route.distance, firstDir: route.firstDir, path: route.path, onRoute, nearRoute };
+    }).sort((a, b) => (a.distance === b.distance ? 0 : a.distance - b.distance));
+
+    const reachable = fruits.filter(f => f.distance < Infinity);
+    return {
+      team,
+      fruits,
+      clean: reachable.find(f => f.onRoute.length === 0) ?? null,
+      closest: reachable[0] ?? null,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Route planning
+// ---------------------------------------------------------------------------
+
+export interface RoutePlanOptions {
+  /** Eaten fruit respawns somewhere random (default: the game's `respawn` config, else true) */
+  respawn?: boolean;
+  /** Keep the tail when a fruit is eaten (default: snakeGrows — the game's `grow` config, else true) */
+  grow?: boolean;
+  /** Most fruits on the board to try every order of; with more, tours go nearest-first (default: 5) */
+  exhaustiveFruits?: number;
+}
+
+/** A team's planned fruit tour */
+export interface FruitTour {
+  team: string;
+  fruitsNeeded: number;
+  /** Fruits on the board, in the order to eat them */
+  stops: HexPos[];
+  /** Moves for each stop's leg */
+  legs: number[];
+  /** Cells of the whole on-board route, from the first step */
+  path: HexPos[];
+  /** Fruits still needed after the stops, expected to respawn */
+  respawns: number;
+  /** Expected moves to a respawned fruit: mean distance to a cell fruit can spawn on */
+  respawnLeg: number;
+  /** Rounds to win if the team steered every move; Infinity = no way to win */
+  roundsToWin: number;
+  /** Every stop leaves the snake room to move on (time-aware area beyond its length) */
+  safe: boolean;
+}
+
+/**
+ * Time-aware BFS distance from `from` to every reachable cell.
+ */
+function distanceMap(from: HexPos, gameState: GameState): Map<string, number> {
+  const radius = gameState.gridSize?.radius || 3;
+  const gridType = detectGridType(gameState);
+  const dirEntries = getDirectionsForGrid(gridType);
+  const obstacleClearTime = bodyObstacles(gameState, true, true);
+  const dist = new Map<string, number>([[`${from.q},${from.r}`, 0]]);
+  const queue: HexPos[] = [from];
+  for (let head = 0; head < queue.length; head++) {
+    const cur = queue[head];
+    const d = dist.get(`${cur.q},${cur.r}`)! + 1;
+    for (const [, offset] of dirEntries) {
+      const q = cur.q + offset.q;
+      const r = cur.r + offset.r;
+      const key = `${q},${r}`;
+      if (!isInBounds(q, r, radius, gridType) || dist.has(key)) continue;
+      if (d < (obstacleClearTime.get(key) ?? 0)) continue;
+      dist.set(key, d);
+      queue.push({ q, r });
+    }
+  }
+  return dist;
+}
+
+/**
+ * Plan the shortest safe tour through `team`'s fruit toward fruitsToWin.
+ * Every order of the fruits on the board is tried, with the body
+ * advancing along each leg (time-aware BFS). The shortest tour whose
+ * stops all leave the snake room to move on wins; if none does, the
+ * shortest tour. The number of orders grows factorially, so when the
+ * team has more than `exhaustiveFruits` fruits on the board the tour
+ * always goes to the nearest fruit next instead. When more fruits are needed than the board holds, the
+ * rest are expected to respawn (if the game respawns fruit) at the mean
+ * distance to a cell fruit can spawn on.
+ */
+export function planFruitRoute(
+  gameState: GameState,
+  team: string,
+  fruitsNeeded?: number,
+  options: RoutePlanOptions = {},
+): FruitTour {
+  const needed = fruitsNeeded ?? Math.max(0, (gameState.config?.fruitsToWin || 3) - (gameState.fruitScores?.[team] ?? 0));
+  const respawn = options.respawn ?? (gameState.config?.respawn as boolean | undefined) ?? true;
+  const grow = options.grow ?? snakeGrows(gameState);
+  const body = gameState.snake?.body || [];
+  const fruits = gameState.apples?.[team] || [];
+  const radius = gameState.gridSize?.radius || 3;
+  const gridType = detectGridType(gameState);
+
+  const empty: FruitTour = {
+    team, fruitsNeeded: needed, stops: [], legs: [], path: [], respawns: needed,
+    respawnLeg: Infinity, roundsToWin: needed === 0 ? 0 : Infinity, safe: true,
+  };
+  if (needed === 0 || body.length === 0) return empty;
+
+  interface Tour { stops: HexPos[]; legs: number[]; path: HexPos[]; body: HexPos[]; safe: boolean; moves: number }
+  let best: Tour | null = null;
+  const better = (a: Tour, b: Tour | null): boolean =>
+    !b || (a.safe !== b.safe ? a.safe : a.moves < b.moves);
+
+  const stopsWanted = Math.min(needed, fruits.length);
+  const nearestFirst = fruits.length > (options.exhaustiveFruits ?? 5);
+  const extend = (tour: Tour, remaining: HexPos[]): void => {
+    if (tour.stops.length === stopsWanted) {
+      if (better(tour, best)) best = tour;
+      return;
+    }
+    const state = { ...gameState, snake: { ...gameState.snake, body: tour.body } };
+    let candidates = remaining
+      .map(fruit => ({ fruit, leg: bfsPath(tour.body[0], fruit, state, true, true) }))
+      .filter(({ leg }) => leg.distance !== Infinity && leg.distance !== 0);
+    if (nearestFirst && candidates.length > 0) {
+      candidates = [candidates.reduce((a, b) => (b.leg.distance < a.leg.distance ? b : a))];
+    }
+    for (const { fruit, leg } of candidates) {
+      // Walk the leg: the head runs along the path, the tail follows
+      const walked = [...leg.path].reverse();
+      const length = tour.body.length + (grow ? 1 : 0);
+      const beforeLast = [...walked.slice(1), ...tour.body].slice(0, tour.body.length);
+      const nextBody = [...walked, ...tour.body].slice(0, length);
+      const room = timeAwareFloodFill(fruit, { ...state, snake: { ...state.snake, body: beforeLast } }, grow);
+
+      extend({
+        stops: [...tour.stops, fruit],
+        legs: [...tour.legs, leg.distance],
+        path: [...tour.path, ...leg.path],
+        body: nextBody,
+        safe: tour.safe && room > nextBody.length,
+        moves: tour.moves + leg.distance,
+      }, remaining.filter(f => f !== fruit));
+    }
+  };
+  extend({ stops: [], legs: [], path: [], body, safe: true, moves: 0 }, fruits);
+
+  const tour = best as Tour | null;
+  if (!tour) return empty;
+
+  const respawns = needed - tour.stops.length;
+  let respawnLeg = 0;
+  if (respawns > 0) {
+    // Mean distance from the last stop to the cells a fruit may respawn on
+    const end = tour.body[0];
+    const dist = distanceMap(end, { ...gameState, snake: { ...gameState.snake, body: tour.body } });
+    const minDist = fruitSpawnMinDistance(radius);
+    const occupied = new Set([...tour.body, ...Object.values(gameState.apples || {}).flat()].map(c => `${c.q},${c.r}`));
+    let total = 0;
+    let count = 0;
+    for (const [key, d] of dist) {
+      const [q, r] = key.split(',').map(Number);
+      if (occupied.has(key) || gridDistance({ q, r }, { q: 0, r: 0 }, gridType) < minDist) continue;
+      total += d;
+      count++;
+    }
+    respawnLeg = respawn && count > 0 ? total / count : Infinity;
+  }
+
+  return {
+    team,
+    fruitsNeeded: needed,
+    stops: tour.stops,
+    legs: tour.legs,
+    path: tour.path,
+    respawns,
+    respawnLeg,
+    roundsToWin: tour.moves + respawns * respawnLeg,
+    safe: tour.safe,
+  };
+}
+
+/**
+ * Expected rounds to win for every team (see planFruitRoute).
+ */
+export function estimateRoundsToWin(gameState: GameState, options: RoutePlanOptions = {}): Record<string, number> {
+  const teamIds = gameState.teams?.map(t => t.id) ?? Object.keys(gameState.apples || {});
+  const rounds: Record<string, number> = {};
+  for (const team of teamIds) rounds[team] = planFruitRoute(gameState, team, undefined, options).roundsToWin;
+  return rounds;
+}
@@ -0,0 +1,435 @@
+/**
+ * Local mock trifle-bot server backed by the simulator.
+ *
+ * Serves the subset of the trifle-bot HTTP API used by SnakeClient and
+ * the wallet auth flow, with game progress driven by createGameState /
+ * advanceRound. Rounds run on real wall-clock timing (countdown,
+ * extension window, minBid doubling) so the live runner can be exercised
+ * end to end without touching bot.trifle.life.
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { verifyMessage } from 'viem';
+import { parseSiweMessage, generateSiweNonce } from 'viem/siwe';
+
+import {
+  createGameState,
+  advanceRound,
+  createRNG,
+  RODEO_CYCLES,
+} from './simulator.js';
+import type { RodeoCycleConfig, SimGameState, RNG } from './simulator.js';
+import { getValidDirections, ROUND_TIMING } from './game-state.js';
+import type { Direction } from './game-state.js';
+import type { AuthUser } from './auth.js';
+import { computePayouts } from './payouts.js';
+
+export interface MockServerOptions {
+  /** Rodeo config for every game (default: Small) */
+  config?: RodeoCycleConfig;
+  /** Extra rodeo configs listed by /snake/rodeos (default: RODEO_CYCLES) */
+  rodeos?: RodeoCycleConfig[];
+  /** RNG seed for fruit placement */
+  seed?: number;
+  /** Round length in seconds (default: ROUND_TIMING.baseDurationSec) */
+  roundDurationSeconds?: number;
+  /** Extension window / extension length in seconds (default: ROUND_TIMING.extensionPeriodSec) */
+  extensionPeriodSeconds?: number;
+  /** Pause between a game ending and the next one starting (default: 20) */
+  newGameDelaySeconds?: number;
+  /** Balls credited to each new account (default: 100) */
+  startingBalls?: number;
+  /** How often the round clock is checked, in ms (default: 100) */
+  tickMs?: number;
+  /** Log round results to the console */
+  verbose?: boolean;
+}
+
+interface MockUser extends AuthUser {
+  address: string;
+  balls: number;
+  /** Votes cast this game, per team */
+  votesByTeam: Record<string, number>;
+  /** Balls spent this game, per team */
+  spentByTeam: Record<string, number>;
+  /** Order of the user's latest vote per team this game */
+  lastVoteByTeam: Record<string, number>;
+}
+
+interface MockVote {
+  user: string;
+  direction: Direction;
+  team: string;
+  amount: number;
+  ts: number;
+}
+
+/**
+ * In-process HTTP server mimicking trifle-bot.
+ *
+ * ```ts
+ * const server = new MockServer({ seed: 42, roundDurationSeconds: 2 });
+ * const url = await server.start();
+ * const client = new SnakeClient(url, token);
+ * // ...
+ * await server.close();
+ * ```
+ */
+export class MockServer {
+  private options: MockServerOptions;
+  private config: RodeoCycleConfig;
+  private rng: RNG;
+  private server: Server | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private users = new Map<string, MockUser>();
+  private tokens = new Map<string, string>();
+  private nonces = new Set<string>();
+  private nextUserId = 1;
+
+  gameState: SimGameState;
+  /** Set while between games: when the next game starts (ms epoch) */
+  private nextGameTime: number | null = null;
+  private roundVotes: MockVote[] = [];
+  private voteCount = 0;
+
+  /** The seed actually used (auto-generated if none was given) */
+  readonly seed: number;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.config = options.config || RODEO_CYCLES[0];
+    const { rng, seed } = createRNG(options.seed);
+    this.rng = rng;
+    this.seed = seed;
+    this.gameState = this.newGame(1);
+  }
+
+  private get roundMs(): number {
+    return (this.options.roundDurationSeconds ?? ROUND_TIMING.baseDurationSec) * 1000;
+  }
+
+  private get extensionMs(): number {
+    return (this.options.extensionPeriodSeconds ?? ROUND_TIMING.extensionPeriodSec) * 1000;
+  }
+
+  /**
+   * Start listening. Resolves with the base URL (e.g. http://127.0.0.1:54321).
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((e: unknown) => {
+        const msg = e instanceof Error ? e.message : String(e);
+        this.send(res, 500, { error: msg });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    this.timer = setInterval(() => this.tick(), this.options.tickMs ?? 100);
+
+    const addr = this.server.address() as AddressInfo;
+    return `http://${host}:${addr.port}`;
+  }
+
+  /**
+   * Stop the round clock and close the HTTP server.
+   */
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Advance the game clock. Called on an interval while running, but can
+   * be called directly (with an explicit `now`) to drive the server in tests.
+   */
+  tick(now: number = Date.now()): void {
+    if (this.nextGameTime !== null) {
+      if (now >= this.nextGameTime) {
+        this.gameState = this.newGame(this.gameState.id + 1, now);
+        this.nextGameTime = null;
+      }
+      return;
+    }
+
+    const gs = this.gameState;
+    if (!gs.gameActive) return;
+
+    if (now < gs.nextMoveTime) {
+      gs.countdown = Math.ceil((gs.nextMoveTime - now) / 1000);
+      return;
+    }
+
+    this.resolveRound(now);
+  }
+
+  // ── Game flow ───────────────────────────────────────────────────────
+
+  private newGame(id: number, now: number = Date.now()): SimGameState {
+    const gs = createGameState(this.config, this.rng);
+    const roundSec = this.roundMs / 1000;
+    gs.id = id;
+    gs.nextMoveTime = now + this.roundMs;
+    gs.countdown = roundSec;
+    gs.totalRoundTime = roundSec;
+    gs.config.roundDurationSeconds = roundSec;
+    gs.config.extensionPeriodSeconds = this.extensionMs / 1000;
+    gs.config.newGameDelaySeconds = this.options.newGameDelaySeconds ?? gs.config.newGameDelaySeconds;
+    for (const user of this.users.values()) {
+      user.votesByTeam = {};
+      user.spentByTeam = {};
+      user.lastVoteByTeam = {};
+    }
+    this.roundVotes = [];
+    this.voteCount = 0;
+    return gs;
+  }
+
+  private resolveRound(now: number): void {
+    let gs = this.gameState;
+    const validDirs = getValidDirections(gs);
+
+    if (validDirs.length === 0 && !gs.config.collision) {
+      // Dead end — no one can move the snake, game ends without a winner
+      this.endGame(now, null);
+      return;
+    }
+
+    const lastVote = this.roundVotes[this.roundVotes.length - 1];
+    let direction: Direction = lastVote?.direction ?? gs.snake.currentDirection;
+    if (!gs.config.collision && !validDirs.includes(direction)) direction = validDirs[0];
+
+    const result = advanceRound(gs, direction, lastVote?.team ?? null, this.rng);
+    gs = result.gameState;
+
+    if (this.options.verbose) {
+      const who = lastVote ? `${lastVote.team} (${this.users.get(lastVote.user)?.username})` : 'no votes';
+      console.log(`[mock] game ${gs.id} round ${gs.round}: ${direction} → ${who} ${result.event}`);
+    }
+
+    this.roundVotes = [];
+    this.gameState = {
+      ...gs,
+      votes: {},
+      minBid: gs.config.initialMinBid,
+      nextMoveTime: now + this.roundMs,
+      countdown: this.roundMs / 1000,
+      totalRoundTime: this.roundMs / 1000,
+    };
+
+    if (result.winner || !gs.gameActive) this.endGame(now, result.winner ?? null);
+  }
+
+  private endGame(now: number, winner: string | null): void {
+    const gs = this.gameState;
+
+    if (winner) {
+      // Prize pool is split among everyone who voted for the winner, using
+      // the config's payout model (default: by vote count)
+      const winners = [...this.users.values()].filter(u => (u.votesByTeam[winner] || 0) > 0);
+      const { payouts } = computePayouts(
+        gs.config.auctionMode,
+        winners.map(u => ({
+          id: u.id,
+          votes: u.votesByTeam[winner],
+          amount: u.spentByTeam[winner] || 0,
+          lastVote: u.lastVoteByTeam[winner] ?? -1,
+        })),
+        gs.prizePool,
+        gs.config.houseRake,
+      );
+      for (const user of winners) {
+        user.balls += payouts[user.id] || 0;
+      }
+    }
+
+    this.gameState = { ...gs, gameActive: false, winner, countdown: 0 };
+    this.nextGameTime = now + gs.config.newGameDelaySeconds * 1000;
+
+    if (this.options.verbose) {
+      console.log(`[mock] game ${gs.id} over — winner: ${winner ?? 'none'}`);
+    }
+  }
+
+  private castVote(user: MockUser, body: Record<string, unknown>, now: number): { status: number; body: unknown } {
+    const gs = this.gameState;
+    if (!gs.gameActive || this.nextGameTime !== null) {
+      return { status: 400, body: { error: 'No active game' } };
+    }
+
+    const direction = body.direction as Direction;
+    const team = body.team as string;
+    const amount = Number(body.amount ?? gs.minBid);
+
+    if (!getValidDirections(gs).includes(direction)) {
+      return { status: 400, body: { error: `Invalid direction: ${direction}` } };
+    }
+    if (!gs.teams.some(t => t.id === team)) {
+      return { status: 400, body: { error: `Invalid team: ${team}` } };
+    }
+    if (!Number.isFinite(amount) || amount < gs.minBid) {
+      return { status: 400, body: { error: `Minimum bid is ${gs.minBid}` } };
+    }
+    if (user.balls < amount) {
+      return { status: 400, body: { error: 'Insufficient balls' } };
+    }
+
+    user.balls -= amount;
+    user.votesByTeam[team] = (user.votesByTeam[team] || 0) + 1;
+    user.spentByTeam[team] = (user.spentByTeam[team] || 0) + amount;
+    user.lastVoteByTeam[team] = this.voteCount++;
+    gs.teamPools[team] = (gs.teamPools[team] || 0) + amount;
+    gs.prizePool += amount;
+
+    const vote: MockVote = { user: user.id, direction, team, amount, ts: now };
+    this.roundVotes.push(vote);
+    gs.votes = { ...gs.votes, [user.id]: vote };
+
+    // Last vote wins: the pending move reflects the latest vote
+    gs.snake = {
+      ...gs.snake,
+      currentDirection: direction,
+      currentWinningTeam: team,
+      currentWinningUser: user.username,
+    };
+
+    // Voting inside the extension window extends the round and doubles minBid
+    if (gs.nextMoveTime - now <= this.extensionMs) {
+      gs.nextMoveTime += this.extensionMs;
+      gs.totalRoundTime += this.extensionMs / 1000;
+      gs.minBid *= 2;
+    }
+    gs.countdown = Math.ceil((gs.nextMoveTime - now) / 1000);
+
+    return { status: 200, body: { success: true, vote, balls: user.balls } };
+  }
+
+  // ── HTTP ────────────────────────────────────────────────────────────
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+    const now = Date.now();
+    this.tick(now);
+
+    switch (route) {
+      case 'GET /snake/state':
+        return this.send(res, 200, { gameState: this.gameState });
+
+      case 'GET /snake/rodeos':
+        return this.send(res, 200, { rodeos: this.options.rodeos || RODEO_CYCLES });
+
+      case 'POST /snake/vote': {
+        const user = this.authenticate(req);
+        if (!user) return this.send(res, 401, { error: 'AUTH_MISSING' });
+        const result = this.castVote(user, await readJson(req), now);
+        return this.send(res, result.status, result.body);
+      }
+
+      case 'GET /balls': {
+        const user = this.authenticate(req);
+        if (!user) return this.send(res, 401, { error: 'AUTH_MISSING' });
+        return this.send(res, 200, { balls: user.balls });
+      }
+
+      case 'GET /auth/status': {
+        const user = this.authenticate(req);
+        if (!user) return this.send(res, 401, { error: 'AUTH_MISSING' });
+        return this.send(res, 200, { user: { id: user.id, username: user.username, address: user.address } });
+      }
+
+      case 'POST /auth/wallet/nonce': {
+        const nonce = generateSiweNonce();
+        this.nonces.add(nonce);
+        return this.send(res, 200, { nonce });
+      }
+
+      case 'POST /auth/wallet/verify': {
+        const body = await readJson(req);
+        const result = await this.verifyWallet(body);
+        return this.send(res, result.status, result.body);
+      }
+
+      default:
+        return this.send(res, 404, { error: `Not found: ${route}` });
+    }
+  }
+
+  private async verifyWallet(body: Record<string, unknown>): Promise<{ status: number; body: unknown }> {
+    const message = body.message;
+    const signature = body.signature;
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return { status: 400, body: { error: 'message and signature are required' } };
+    }
+
+    const siwe = parseSiweMessage(message);
+    if (!siwe.address || !siwe.nonce || !this.nonces.has(siwe.nonce)) {
+      return { status: 401, body: { error: 'Invalid or expired nonce' } };
+    }
+
+    const valid = await verifyMessage({
+      address: siwe.address,
+      message,
+      signature: signature as `0x${string}`,
+    });
+    if (!valid) return { status: 401, body: { error: 'Invalid signature' } };
+
+    this.nonces.delete(siwe.nonce);
+
+    const address = siwe.address.toLowerCase();
+    let user = [...this.users.values()].find(u => u.address === address);
+    if (!user) {
+      const id = String(this.nextUserId++);
+      user = {
+        id,
+        username: `player-${address.slice(2, 8)}`,
+        address,
+        balls: this.options.startingBalls ?? 100,
+        votesByTeam: {},
+        spentByTeam: {},
+        lastVoteByTeam: {},
+      };
+      this.users.set(id, user);
+    }
+
+    const token = randomBytes(24).toString('hex');
+    this.tokens.set(token, user.id);
+    return { status: 200, body: { token } };
+  }
+
+  private authenticate(req: IncomingMessage): MockUser | null {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    const userId = this.tokens.get(token);
+    return userId ? this.users.get(userId) || null : null;
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
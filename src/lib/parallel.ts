@@ -0,0 +1,110 @@
+/**
+ * Parallel tournament execution across worker threads.
+ *
+ * The master seed is expanded into per-game seeds up front (see
+ * planTournament), the game list is split into contiguous slices, and each
+ * worker rebuilds the agents from their specs and plays its slice. Records
+ * are merged back in plan order, so results are identical to a serial
+ * runTournament() with the same seed — provided strategies don't carry
+ * state from one game to the next. Each worker starts with fresh
+ * strategies, so anything learned in `memory` stays within its slice.
+ */
+
+import { Worker } from 'worker_threads';
+
+import { createAgentsFromSpecs } from './agent-specs.js';
+import type { AgentSpec } from './agent-specs.js';
+import {
+  planTournament,
+  playTournamentGames,
+  applyGameRecord,
+  summarizeTournament,
+} from './simulator.js';
+import type {
+  RodeoCycleConfig,
+  TournamentGame,
+  GameRecord,
+  TournamentResults,
+} from './simulator.js';
+
+export interface ParallelTournamentOptions {
+  /** Number of worker threads (default: 1 — runs in the current thread) */
+  workers?: number;
+  seed?: number;
+  /** Starting balance handed to each SimAgent (default: 100) */
+  balance?: number;
+  /** Called with each game's record, in plan order, once its results are merged */
+  onGame?: (record: GameRecord) => void;
+  /** Play rounds on the virtual round clock with default timing (see round-clock.ts) */
+  clock?: boolean;
+}
+
+/** Payload sent to each tournament worker */
+export interface TournamentWorkerInput {
+  specs: AgentSpec[];
+  balance: number;
+  configs: RodeoCycleConfig[];
+  games: TournamentGame[];
+  /** Games played by each agent before this slice (keeps AgentState identical to a serial run) */
+  gamesBefore: number;
+  clock: boolean;
+}
+
+/**
+ * Run a tournament from agent specs, splitting games across worker threads.
+ */
+export async function runTournamentParallel(
+  specs: AgentSpec[],
+  configs: RodeoCycleConfig[],
+  numGamesPerConfig: number = 50,
+  options: ParallelTournamentOptions = {},
+): Promise<TournamentResults> {
+  const balance = options.balance ?? 100;
+  const { seed, games } = planTournament(configs, numGamesPerConfig, options.seed);
+  const agents = createAgentsFromSpecs(specs, balance);
+  const workers = Math.max(1, Math.min(options.workers ?? 1, games.length));
+
+  if (workers === 1) {
+    const records = playTournamentGames(agents, configs, games, { onGame: options.onGame, clock: options.clock });
+    return summarizeTournament(agents, configs, records, seed);
+  }
+
+  const sliceSize = Math.ceil(games.length / workers);
+  const slices: Promise<GameRecord[]>[] = [];
+  for (let start = 0; start < games.length; start += sliceSize) {
+    slices.push(runWorker({
+      specs,
+      balance,
+      configs,
+      games: games.slice(start, start + sliceSize),
+      gamesBefore: start,
+      clock: options.clock ?? false,
+    }));
+  }
+
+  const records = (await Promise.all(slices)).flat();
+  for (const record of records) {
+    applyGameRecord(agents, record);
+    options.onGame?.(record);
+  }
+
+  return summarizeTournament(agents, configs, records, seed);
+}
+
+function runWorker(input: TournamentWorkerInput): Promise<GameRecord[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./tournament-worker.js', import.meta.url), { workerData: input });
+    let settled = false;
+    worker.once('message', (records: GameRecord[]) => {
+      settled = true;
+      resolve(records);
+    });
+    worker.once('error', (e) => {
+      settled = true;
+      reject(e);
+    });
+    worker.once('exit', (code) => {
+      if (!settled) reject(new Error(`Tournament worker exited with code ${code}`));
+    });
+  });
+}
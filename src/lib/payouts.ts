@@ -0,0 +1,97 @@
+/**
+ * Payout models: how the prize pool is split when a team wins.
+ *
+ * Selected per config through `auctionMode`. The server's current rule is
+ * 'all-pay-auction': everyone pays for every vote, and the winning team's
+ * voters split the whole pool in proportion to their vote counts. The
+ * other models let strategies be tested against rule changes.
+ *
+ * An optional house rake (a fraction of the pool) is taken before the
+ * split, under any model.
+ */
+
+/** A voter eligible for a share of the pool (i.e. backed the winning team) */
+export interface PayoutEntrant {
+  id: string;
+  /** Votes that count toward the payout */
+  votes: number;
+  /** Amount spent on those votes */
+  amount: number;
+  /** Order of the entrant's last counted vote in the game (higher = later; -1 if none) */
+  lastVote: number;
+}
+
+/** Splits `pool` among entrants; returns each entrant's share by id */
+export type PayoutModel = (entrants: PayoutEntrant[], pool: number) => Record<string, number>;
+
+export interface PayoutResult {
+  /** Payout per entrant id (entrants that get nothing are omitted) */
+  payouts: Record<string, number>;
+  /** Amount kept by the house */
+  rake: number;
+}
+
+/** Split in proportion to a weight; nothing is paid if all weights are zero */
+function proportional(weight: (e: PayoutEntrant) => number): PayoutModel {
+  return (entrants, pool) => {
+    const total = entrants.reduce((sum, e) => sum + weight(e), 0);
+    const payouts: Record<string, number> = {};
+    if (total <= 0) return payouts;
+    for (const e of entrants) {
+      if (weight(e) > 0) payouts[e.id] = pool * (weight(e) / total);
+    }
+    return payouts;
+  };
+}
+
+const byVotes = proportional(e => e.votes);
+
+export const PAYOUT_MODELS: Record<string, PayoutModel> = {
+  /** Server default: proportional to vote count */
+  'all-pay-auction': byVotes,
+  'proportional-by-votes': byVotes,
+  /** Proportional to the amount bid, so escalated counter-bids buy bigger shares */
+  'proportional-by-amount': proportional(e => e.amount),
+  /** Every voter on the winning team gets the same share */
+  'equal-split': (entrants, pool) => {
+    const voters = entrants.filter(e => e.votes > 0);
+    const payouts: Record<string, number> = {};
+    for (const e of voters) payouts[e.id] = pool / voters.length;
+    return payouts;
+  },
+  /** The whole pool goes to whoever cast the last vote for the winning team */
+  'winner-take-all': (entrants, pool) => {
+    const last = entrants
+      .filter(e => e.votes > 0)
+      .reduce<PayoutEntrant | null>((best, e) => (!best || e.lastVote > best.lastVote ? e : best), null);
+    return last ? { [last.id]: pool } : {};
+  },
+};
+
+/**
+ * Look up a payout model by auctionMode name.
+ */
+export function getPayoutModel(mode: string): PayoutModel {
+  const model = PAYOUT_MODELS[mode];
+  if (!model) {
+    throw new Error(`Unknown auction mode: ${mode}. Available: ${listPayoutModels().join(', ')}`);
+  }
+  return model;
+}
+
+export function listPayoutModels(): string[] {
+  return Object.keys(PAYOUT_MODELS);
+}
+
+/**
+ * Take the house rake off the pool and split the rest with the given model.
+ */
+export function computePayouts(
+  mode: string,
+  entrants: PayoutEntrant[],
+  prizePool: number,
+  houseRake: number = 0,
+): PayoutResult {
+  const rake = prizePool * houseRake;
+  return { payouts: getPayoutModel(mode)(entrants, prizePool - rake), rake };
+}
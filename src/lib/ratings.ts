@@ -0,0 +1,157 @@
+/**
+ * Skill ratings for strategies (Weng-Lin Bayesian approximation,
+ * Bradley-Terry full-pair model — the OpenSkill flavour of TrueSkill).
+ *
+ * Every game is treated as a match between teams: all agents that backed
+ * the winning team form one team at rank 1, and each other agent is its
+ * own team, tied for rank 2. Ratings are kept per strategy label (e.g.
+ * "ev:contrarian"), so they don't depend on who else sat at the table the
+ * way win rate and ROI do.
+ *
+ * A rating is a mean (mu) and an uncertainty (sigma); leaderboards sort by
+ * the conservative estimate mu - 3·sigma.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+import type { GameRecord } from './simulator.js';
+
+export const DEFAULT_MU = 25;
+export const DEFAULT_SIGMA = 25 / 3;
+/** Performance variance scale: a skill gap of beta ≈ 76% win chance */
+const BETA = 25 / 6;
+/** Floor on the sigma shrink factor, so sigma never collapses to zero */
+const KAPPA = 0.0001;
+
+export interface Rating {
+  mu: number;
+  sigma: number;
+  /** Rated games this label took part in */
+  games: number;
+}
+
+export interface RatingsFile {
+  version: 1;
+  updated: string;
+  ratings: Record<string, Rating>;
+}
+
+export interface LeaderboardEntry {
+  label: string;
+  mu: number;
+  sigma: number;
+  /** mu - 3·sigma */
+  rating: number;
+  games: number;
+}
+
+/** Conservative skill estimate used for ranking */
+export function conservativeRating(r: Rating): number {
+  return r.mu - 3 * r.sigma;
+}
+
+/**
+ * A set of per-label ratings that can be updated from game outcomes and
+ * persisted to a JSON file.
+ */
+export class RatingBook {
+  ratings: Record<string, Rating>;
+
+  constructor(ratings: Record<string, Rating> = {}) {
+    this.ratings = ratings;
+  }
+
+  /** Load ratings from a JSON file (empty book if the file doesn't exist) */
+  static load(path: string): RatingBook {
+    if (!existsSync(path)) return new RatingBook();
+    const data = JSON.parse(readFileSync(path, 'utf8')) as RatingsFile;
+    if (data.version !== 1) throw new Error(`Unsupported ratings file version: ${data.version}`);
+    return new RatingBook(data.ratings);
+  }
+
+  save(path: string): void {
+    mkdirSync(dirname(path), { recursive: true });
+    const data: RatingsFile = { version: 1, updated: new Date().toISOString(), ratings: this.ratings };
+    writeFileSync(path, JSON.stringify(data, null, 2));
+  }
+
+  get(label: string): Rating {
+    if (!this.ratings[label]) this.ratings[label] = { mu: DEFAULT_MU, sigma: DEFAULT_SIGMA, games: 0 };
+    return this.ratings[label];
+  }
+
+  /**
+   * Update ratings from one game. `labels[i]` is agent i's strategy label
+   * and `won[i]` whether it backed the winning team. Games without both a
+   * winner and a loser carry no information and are skipped.
+   *
+   * A label seated more than once gets the average of its seats' updates,
+   * so it moves once per game.
+   *
+   * @returns true if ratings were updated
+   */
+  rateGame(labels: string[], won: boolean[]): boolean {
+    const winners = labels.filter((_, i) => won[i]);
+    const losers = labels.filter((_, i) => !won[i]);
+    if (winners.length === 0 || losers.length === 0) return false;
+
+    // Teams: the winners together, then each loser alone
+    const teams: { members: string[]; rank: number }[] = [
+      { members: winners, rank: 1 },
+      ...losers.map(l => ({ members: [l], rank: 2 })),
+    ];
+    const priors = teams.map(t => t.members.map(l => ({ ...this.get(l) })));
+    const teamMu = priors.map(ps => ps.reduce((s, p) => s + p.mu, 0));
+    const teamVar = priors.map(ps => ps.reduce((s, p) => s + p.sigma ** 2, 0));
+
+    const updates = new Map<string, { mu: number[]; sigma: number[] }>();
+
+    teams.forEach((team, i) => {
+      let omega = 0;
+      let delta = 0;
+      teams.forEach((other, q) => {
+        if (q === i) return;
+        const c = Math.sqrt(teamVar[i] + teamVar[q] + 2 * BETA ** 2);
+        const p = 1 / (1 + Math.exp((teamMu[q] - teamMu[i]) / c));
+        const score = team.rank < other.rank ? 1 : team.rank === other.rank ? 0.5 : 0;
+        const gamma = Math.sqrt(teamVar[i]) / c;
+        omega += (teamVar[i] / c) * (score - p);
+        delta += gamma * (teamVar[i] / c ** 2) * p * (1 - p);
+      });
+
+      team.members.forEach((label, j) => {
+        const prior = priors[i][j];
+        const share = prior.sigma ** 2 / teamVar[i];
+        const entry = updates.get(label) ?? { mu: [], sigma: [] };
+        entry.mu.push(prior.mu + share * omega);
+        entry.sigma.push(prior.sigma * Math.sqrt(Math.max(1 - share * delta, KAPPA)));
+        updates.set(label, entry);
+      });
+    });
+
+    for (const [label, { mu, sigma }] of updates) {
+      const rating = this.get(label);
+      rating.mu = mu.reduce((s, v) => s + v, 0) / mu.length;
+      rating.sigma = sigma.reduce((s, v) => s + v, 0) / sigma.length;
+      rating.games++;
+    }
+    return true;
+  }
+
+  /**
+   * Update ratings from a tournament game record. `labels[i]` is the
+   * strategy label of the record's agent i.
+   */
+  rateRecord(record: GameRecord, labels: string[]): boolean {
+    if (record.winner === null) return false;
+    return this.rateGame(labels, record.agents.map(a => a.won));
+  }
+
+  /** Entries sorted by conservative rating, best first */
+  leaderboard(): LeaderboardEntry[] {
+    return Object.entries(this.ratings)
+      .map(([label, r]) => ({ label, mu: r.mu, sigma: r.sigma, rating: conservativeRating(r), games: r.games }))
+      .sort((a, b) => b.rating - a.rating);
+  }
+}
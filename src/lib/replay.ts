@@ -0,0 +1,295 @@
+/**
+ * Game recording and replay (versioned JSONL).
+ *
+ * A replay file is a sequence of JSON lines. Each game starts with a
+ * `header` entry, followed by one `round` entry per round and a final
+ * `end` entry. Several games can be concatenated in one file (e.g. a
+ * whole tournament); a header always starts a new game.
+ *
+ *   {"type":"header","version":1,"source":"simulator","seed":42,...}
+ *   {"type":"round","round":0,"preState":{...},"votes":[...],...}
+ *   ...
+ *   {"type":"end","winner":"A","rounds":17,"payouts":[...],...}
+ */
+
+import { readFileSync, writeFileSync, appendFileSync } from 'fs';
+
+import type { Direction, GameState, HexPos } from './game-state.js';
+import type { RodeoCycleConfig } from './simulator.js';
+
+/** Current replay format version. Bump on breaking changes to the entry shapes. */
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayAgent {
+  id: string;
+  name: string;
+  strategy: string;
+}
+
+/** First entry of every game */
+export interface ReplayHeader {
+  type: 'header';
+  version: number;
+  source: 'simulator' | 'live';
+  seed?: number;
+  config?: RodeoCycleConfig;
+  agents: ReplayAgent[];
+  initialState: GameState;
+  ts?: string;
+}
+
+/** A single vote, including counter-bids */
+export interface ReplayVote {
+  agent: string;
+  direction: Direction;
+  team: string;
+  amount: number;
+  /** True for counter-bids placed after being overridden */
+  counter: boolean;
+  /** Extension number the vote was placed in (0 = initial votes) */
+  extension: number;
+  /** Seconds since the round started (clocked simulations only) */
+  time?: number;
+  reason?: string;
+}
+
+/** Outcome of a round (the AdvanceResult minus the new state) */
+export interface ReplayRoundResult {
+  direction: Direction;
+  winningTeam: string | null;
+  event: string;
+  ateFruit?: HexPos | null;
+  ateTeam?: string | null;
+  winner?: string | null;
+}
+
+export interface ReplayRound {
+  type: 'round';
+  round: number;
+  /** State at the start of the round, before any votes */
+  preState: GameState;
+  votes: ReplayVote[];
+  extensions: number;
+  result: ReplayRoundResult;
+}
+
+export interface ReplayPayout {
+  agent: string;
+  spent: number;
+  earned: number;
+  profit: number;
+}
+
+/** Last entry of every game */
+export interface ReplayEnd {
+  type: 'end';
+  winner: string | null;
+  rounds: number;
+  finalState: GameState;
+  payouts: ReplayPayout[];
+}
+
+export type ReplayEntry = ReplayHeader | ReplayRound | ReplayEnd;
+
+/** A game reassembled from a replay file */
+export interface ReplayGame {
+  header: ReplayHeader;
+  rounds: ReplayRound[];
+  end: ReplayEnd | null;
+}
+
+/**
+ * Sink for replay entries. Entries may share objects with live game state,
+ * so implementations must serialize (or clone) them immediately.
+ */
+export interface ReplayRecorder {
+  record(entry: ReplayEntry): void;
+}
+
+/**
+ * Writes replay entries to a JSONL file, one entry per line.
+ */
+export class ReplayFileWriter implements ReplayRecorder {
+  readonly path: string;
+
+  /**
+   * @param append - keep existing contents instead of truncating the file
+   */
+  constructor(path: string, append: boolean = false) {
+    this.path = path;
+    if (!append) writeFileSync(path, '');
+  }
+
+  record(entry: ReplayEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Parse JSONL replay text into games. Throws on unknown versions or
+ * entries that appear before any header.
+ */
+export function parseReplay(text: string): ReplayGame[] {
+  const games: ReplayGame[] = [];
+  let current: ReplayGame | null = null;
+
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let entry: ReplayEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Replay line ${i + 1}: invalid JSON`);
+    }
+
+    switch (entry.type) {
+      case 'header':
+        if (entry.version !== REPLAY_FORMAT_VERSION) {
+          throw new Error(`Replay line ${i + 1}: unsupported version ${entry.version} (expected ${REPLAY_FORMAT_VERSION})`);
+        }
+        current = { header: entry, rounds: [], end: null };
+        games.push(current);
+        break;
+      case 'round':
+      case 'end':
+        if (!current) throw new Error(`Replay line ${i + 1}: ${entry.type} entry before any header`);
+        if (entry.type === 'round') current.rounds.push(entry);
+        else current.end = entry;
+        break;
+      default:
+        throw new Error(`Replay line ${i + 1}: unknown entry type ${(entry as { type?: unknown }).type}`);
+    }
+  }
+
+  return games;
+}
+
+/**
+ * Read and parse a replay file.
+ */
+export function readReplay(path: string): ReplayGame[] {
+  return parseReplay(readFileSync(path, 'utf8'));
+}
+
+/**
+ * Infer a round's outcome from the last state seen before the move and the
+ * first state after it. Used for live games, where the server doesn't
+ * report an AdvanceResult.
+ */
+export function inferRoundResult(pre: GameState, post: GameState): ReplayRoundResult {
+  const preScores = pre.fruitScores || {};
+  const postScores = post.fruitScores || {};
+  const scoredTeam = Object.keys(postScores).find(t => (postScores[t] || 0) > (preScores[t] || 0)) || null;
+
+  const head = post.snake?.body?.[0];
+  let ateFruit: HexPos | null = null;
+  let ateTeam: string | null = null;
+  if (head) {
+    for (const [teamId, fruits] of Object.entries(pre.apples || {})) {
+      if (fruits.some(f => f.q === head.q && f.r === head.r)) {
+        ateFruit = { q: head.q, r: head.r };
+        ateTeam = teamId;
+        break;
+      }
+    }
+  }
+
+  return {
+    direction: post.snake?.currentDirection ?? pre.snake?.currentDirection ?? 'n',
+    winningTeam: pre.snake?.currentWinningTeam ?? scoredTeam,
+    event: ateFruit ? 'ate_fruit' : 'moved',
+    ateFruit,
+    ateTeam,
+    winner: post.winner ?? null,
+  };
+}
+
+/**
+ * Builds replay entries from polled live-server states. The live runner
+ * only sees its own votes and snapshots of the state, so round results
+ * are inferred and other players' votes are not recorded.
+ */
+export class LiveReplayRecorder {
+  private recorder: ReplayRecorder;
+  private agent: ReplayAgent;
+  private round: number | undefined = undefined;
+  private roundStart: GameState | null = null;
+  private lastSeen: GameState | null = null;
+  private votes: ReplayVote[] = [];
+  private extensions: number = 0;
+
+  constructor(recorder: ReplayRecorder, agent: ReplayAgent) {
+    this.recorder = recorder;
+    this.agent = agent;
+  }
+
+  /** Record a game header. Call when a new game is detected. */
+  startGame(state: GameState): void {
+    this.round = undefined;
+    this.roundStart = null;
+    this.lastSeen = null;
+    this.votes = [];
+    this.extensions = 0;
+    this.recorder.record({
+      type: 'header',
+      version: REPLAY_FORMAT_VERSION,
+      source: 'live',
+      agents: [this.agent],
+      initialState: state,
+      ts: new Date().toISOString(),
+    });
+  }
+
+  /** Feed every polled state of an active game. Flushes a round entry when the round changes. */
+  observe(state: GameState): void {
+    if (state.round !== this.round) {
+      this.flushRound(state);
+      this.round = state.round;
+      this.roundStart = state;
+      this.votes = [];
+      this.extensions = 0;
+    }
+    this.lastSeen = state;
+    this.extensions = Math.max(this.extensions, extensionsOf(state));
+  }
+
+  /** Record one of our own votes in the current round. */
+  vote(vote: Omit<ReplayVote, 'agent'>): void {
+    this.votes.push({ agent: this.agent.name, ...vote });
+  }
+
+  /** Flush the last round and record the game end. */
+  endGame(state: GameState, payout: Omit<ReplayPayout, 'agent'> | null): void {
+    this.flushRound(state);
+    this.roundStart = null;
+    this.recorder.record({
+      type: 'end',
+      winner: state.winner ?? null,
+      rounds: state.round ?? 0,
+      finalState: state,
+      payouts: payout ? [{ agent: this.agent.name, ...payout }] : [],
+    });
+  }
+
+  private flushRound(post: GameState): void {
+    if (!this.roundStart || !this.lastSeen) return;
+    this.recorder.record({
+      type: 'round',
+      round: this.round ?? 0,
+      preState: this.roundStart,
+      votes: this.votes,
+      extensions: this.extensions,
+      result: inferRoundResult(this.lastSeen, post),
+    });
+  }
+}
+
+/** Extensions so far this round, derived from minBid doubling */
+function extensionsOf(state: GameState): number {
+  const initial = state.config?.initialMinBid || 1;
+  const current = state.minBid || 1;
+  return current > initial ? Math.round(Math.log2(current / initial)) : 0;
+}
@@ -0,0 +1,231 @@
+/**
+ * Rodeo configs from JSON files.
+ *
+ * A config file holds a single RodeoCycleConfig object, an array of them,
+ * or `{ "configs": [...] }`. Every entry is validated at runtime so a typo
+ * fails loudly instead of silently simulating the wrong game. Optional
+ * server flags (initialMinBid, initialSnakeLength, respawn, simpleBid)
+ * fall back to the server defaults.
+ *
+ *   [{ "name": "Huge", "numberOfTeams": 5, "hexRadius": 6,
+ *      "fruitsPerTeam": 3, "fruitsToWin": 5, "startingBalance": 20 }]
+ */
+
+import { readFileSync } from 'fs';
+
+import { getTotalCells, getDirectionsForGrid, isInBounds } from './game-state.js';
+import type { GridType } from './game-state.js';
+import { TEAM_CONFIG, spawnLayoutError } from './simulator.js';
+import { listPayoutModels } from './payouts.js';
+import type { RodeoCycleConfig, TeamConfig } from './simulator.js';
+
+const CONFIG_DEFAULTS = {
+  initialMinBid: 1,
+  initialSnakeLength: 1,
+  respawn: true,
+  simpleBid: true,
+};
+
+const KNOWN_KEYS = new Set([
+  'name', 'gridType', 'numberOfTeams', 'hexRadius', 'fruitsPerTeam', 'fruitsToWin',
+  'startingBalance', 'initialMinBid', 'initialSnakeLength', 'respawn', 'simpleBid',
+  'collision', 'collisionMode', 'grow', 'spawn', 'spawnDirection', 'teams',
+  'auctionMode', 'houseRake',
+]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireInt(obj: Record<string, unknown>, key: string, where: string, min: number): number {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new Error(`${where}: ${key} must be an integer >= ${min} (got ${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+function optionalBool(obj: Record<string, unknown>, key: string, where: string): boolean | undefined {
+  const value = obj[key];
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new Error(`${where}: ${key} must be true or false (got ${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+function validateTeams(value: unknown, where: string): TeamConfig[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${where}: teams must be a non-empty array`);
+  }
+  const ids = new Set<string>();
+  return value.map((team, i) => {
+    const at = `${where}: teams[${i}]`;
+    if (!isObject(team)) throw new Error(`${at} must be an object`);
+    if (typeof team.id !== 'string' || !team.id) throw new Error(`${at}.id must be a non-empty string`);
+    if (ids.has(team.id)) throw new Error(`${at}.id "${team.id}" is a duplicate`);
+    ids.add(team.id);
+    for (const key of ['name', 'color', 'emoji']) {
+      if (team[key] !== undefined && typeof team[key] !== 'string') throw new Error(`${at}.${key} must be a string`);
+    }
+    // Fill display fields from the default team with the same id, if any
+    const fallback = TEAM_CONFIG.find(t => t.id === team.id);
+    return {
+      ...team,
+      id: team.id,
+      name: (team.name as string) ?? fallback?.name ?? team.id,
+      color: (team.color as string) ?? fallback?.color ?? '#888888',
+      emoji: (team.emoji as string) ?? fallback?.emoji ?? '?',
+    };
+  });
+}
+
+/**
+ * Validate one config object, filling in server defaults.
+ * Throws with the offending field on invalid input.
+ */
+export function validateRodeoConfig(value: unknown, where: string = 'config'): RodeoCycleConfig {
+  if (!isObject(value)) throw new Error(`${where}: must be an object`);
+
+  const unknown = Object.keys(value).filter(k => !KNOWN_KEYS.has(k));
+  if (unknown.length > 0) throw new Error(`${where}: unknown field(s) ${unknown.join(', ')}`);
+
+  if (typeof value.name !== 'string' || !value.name.trim()) throw new Error(`${where}: name must be a non-empty string`);
+  where = `${where} "${value.name}"`;
+
+  const gridType = (value.gridType ?? 'hexagonal') as GridType;
+  if (gridType !== 'hexagonal' && gridType !== 'cartesian') {
+    throw new Error(`${where}: gridType must be "hexagonal" or "cartesian"`);
+  }
+
+  const teams = value.teams !== undefined ? validateTeams(value.teams, where) : undefined;
+  const numberOfTeams = value.numberOfTeams === undefined && teams
+    ? teams.length
+    : requireInt(value, 'numberOfTeams', where, 1);
+  if (teams && teams.length !== numberOfTeams) {
+    throw new Error(`${where}: numberOfTeams is ${numberOfTeams} but ${teams.length} teams are listed`);
+  }
+  if (!teams && numberOfTeams > TEAM_CONFIG.length) {
+    throw new Error(`${where}: ${numberOfTeams} teams needs a teams list (only ${TEAM_CONFIG.length} default teams)`);
+  }
+
+  const config: RodeoCycleConfig = {
+    ...CONFIG_DEFAULTS,
+    ...(value as Partial<RodeoCycleConfig>),
+    name: value.name,
+    gridType,
+    numberOfTeams,
+    hexRadius: requireInt(value, 'hexRadius', where, 1),
+    fruitsPerTeam: requireInt(value, 'fruitsPerTeam', where, 1),
+    fruitsToWin: requireInt(value, 'fruitsToWin', where, 1),
+    startingBalance: requireInt(value, 'startingBalance', where, 1),
+    ...(teams ? { teams } : {}),
+  };
+  for (const key of ['initialMinBid', 'initialSnakeLength'] as const) {
+    if (value[key] !== undefined) requireInt(value, key, where, 1);
+  }
+  for (const key of ['respawn', 'simpleBid', 'collision', 'grow']) optionalBool(value, key, where);
+
+  if (config.collisionMode !== undefined && config.collisionMode !== 'reset' && config.collisionMode !== 'end') {
+    throw new Error(`${where}: collisionMode must be "reset" or "end"`);
+  }
+
+  if (config.auctionMode !== undefined && !listPayoutModels().includes(config.auctionMode)) {
+    throw new Error(`${where}: auctionMode must be one of ${listPayoutModels().join(', ')}`);
+  }
+  if (config.houseRake !== undefined && (typeof config.houseRake !== 'number' || config.houseRake < 0 || config.houseRake >= 1)) {
+    throw new Error(`${where}: houseRake must be a number in [0, 1)`);
+  }
+
+  const directions = getDirectionsForGrid(gridType).map(([d]) => d as string);
+  if (config.spawnDirection !== undefined && config.spawnDirection !== 'random' && !directions.includes(config.spawnDirection)) {
+    throw new Error(`${where}: spawnDirection must be "random" or one of ${directions.join(', ')}`);
+  }
+  const spawn = config.spawn;
+  if (spawn !== undefined && spawn !== 'center' && spawn !== 'random') {
+    if (!isObject(spawn) || !Number.isInteger(spawn.q) || !Number.isInteger(spawn.r)) {
+      throw new Error(`${where}: spawn must be "center", "random" or { "q": int, "r": int }`);
+    }
+    if (!isInBounds(spawn.q, spawn.r, config.hexRadius, gridType)) {
+      throw new Error(`${where}: spawn (${spawn.q},${spawn.r}) is outside the grid`);
+    }
+  }
+
+  // Every fruit and the starting snake need a cell of their own
+  const cells = getTotalCells(config.hexRadius, gridType);
+  const needed = numberOfTeams * config.fruitsPerTeam + config.initialSnakeLength;
+  if (needed > cells) {
+    throw new Error(`${where}: ${needed} cells needed for fruit and snake, but the grid only has ${cells}`);
+  }
+
+  // The starting snake must fit where it spawns, or createGameState throws mid-run
+  const spawnError = spawnLayoutError(config);
+  if (spawnError) throw new Error(`${where}: ${spawnError}`);
+
+  return config;
+}
+
+/**
+ * Parse config file contents: one config, an array, or { configs: [...] }.
+ */
+export function parseRodeoConfigs(text: string, source: string = 'config file'): RodeoCycleConfig[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${source}: invalid JSON (${(e as Error).message})`);
+  }
+
+  const list = Array.isArray(data) ? data
+    : isObject(data) && Array.isArray(data.configs) ? data.configs
+    : [data];
+  if (list.length === 0) throw new Error(`${source}: no configs defined`);
+
+  const configs = list.map((c, i) => validateRodeoConfig(c, `${source}[${i}]`));
+  checkUniqueNames(configs, source);
+  return configs;
+}
+
+/**
+ * Throw if two configs share a name (as findRodeoConfig compares them).
+ */
+function checkUniqueNames(configs: RodeoCycleConfig[], source: string): void {
+  const names = new Set<string>();
+  for (const c of configs) {
+    const key = normalizeConfigName(c.name);
+    if (names.has(key)) throw new Error(`${source}: duplicate config name "${c.name}"`);
+    names.add(key);
+  }
+}
+
+/**
+ * Read and validate a JSON config file.
+ */
+export function loadRodeoConfigs(path: string): RodeoCycleConfig[] {
+  return parseRodeoConfigs(readFileSync(path, 'utf8'), path);
+}
+
+/**
+ * Read and validate several config files as one list. Names must be
+ * unique across all of them, so --config picks an unambiguous entry.
+ */
+export function loadRodeoConfigFiles(paths: string[]): RodeoCycleConfig[] {
+  const configs = paths.flatMap(path => loadRodeoConfigs(path));
+  checkUniqueNames(configs, paths.join(', '));
+  return configs;
+}
+
+/**
+ * Lowercase and treat spaces, dashes and underscores alike,
+ * so "small-cartesian" matches "Small Cartesian".
+ */
+export function normalizeConfigName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_-]+/g, '-');
+}
+
+/**
+ * Find a config by (normalized) name.
+ */
+export function findRodeoConfig(configs: RodeoCycleConfig[], name: string): RodeoCycleConfig | undefined {
+  const key = normalizeConfigName(name);
+  return configs.find(c => normalizeConfigName(c.name) === key);
+}
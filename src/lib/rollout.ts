@@ -0,0 +1,264 @@
+/**
+ * Monte Carlo win probabilities.
+ *
+ * Plays the current position forward many times with advanceRound, each
+ * round's move chosen by an opponent policy, and counts which team wins.
+ * A replacement for hand-tuned tables like "1 fruit needed, distance 1 →
+ * 0.9": the estimate accounts for the real board (walls, the snake's own
+ * body, every team's fruit) and for how the crowd steers.
+ *
+ * Rollouts are seeded, so a fixed rollout budget gives the same answer
+ * every time. A time budget (timeLimitMs) stops early instead — good for
+ * calling every round, but the count then depends on machine speed.
+ *
+ *   const { teams } = estimateWinProbabilities(parsed.raw, { rollouts: 300, seed: 1 });
+ */
+
+import { bestDirectionToward, findClosestFruit, getValidDirections, ROUND_TIMING } from './game-state.js';
+import type { Direction, GameState, GridType } from './game-state.js';
+import { advanceRound, createRNG, TEAM_CONFIG } from './simulator.js';
+import type { AdvanceResult, RNG, SimGameState, TeamConfig } from './simulator.js';
+
+/** One round's outcome chosen by a policy: the move and the team it's credited to */
+export interface RolloutMove {
+  direction: Direction;
+  team: string | null;
+}
+
+/** Chooses each simulated round's move; null = nobody votes (the snake keeps going) */
+export type RolloutPolicy = (state: SimGameState, rng: RNG) => RolloutMove | null;
+
+export interface RolloutOptions {
+  /** Number of rollouts, at least 1 (default: 200, or unlimited when only timeLimitMs is set) */
+  rollouts?: number;
+  /** Stop starting new rollouts after this many ms (at least one always runs) */
+  timeLimitMs?: number;
+  /** Rounds per rollout before calling it a draw (default: 100) */
+  maxRounds?: number;
+  /** Policy name from ROLLOUT_POLICIES or a custom policy (default: 'pool-weighted') */
+  policy?: string | RolloutPolicy;
+  seed?: number;
+}
+
+export interface WinProbabilities {
+  /** Fraction of rollouts each team won */
+  teams: Record<string, number>;
+  /** Fraction of rollouts with no winner (maxRounds reached, dead end, or ended by collision) */
+  draw: number;
+  rollouts: number;
+  /** Mean rounds to a winner, over rollouts that had one */
+  meanRounds: number;
+  seed: number;
+}
+
+/** Head straight for `team`'s closest fruit */
+export function steerToward(state: SimGameState, team: string): RolloutMove | null {
+  const head = state.snake.body[0];
+  const gridType = state.gridSize.type;
+  const target = findClosestFruit(head, state.apples, team, gridType);
+  const validDirs = getValidDirections(state);
+  const direction = target ? bestDirectionToward(head, target.fruit, validDirs, gridType) : validDirs[0];
+  return direction ? { direction, team } : null;
+}
+
+function teamsWithFruit(state: SimGameState): string[] {
+  return state.teams.map(t => t.id).filter(id => (state.apples[id] || []).length > 0);
+}
+
+export const ROLLOUT_POLICIES: Record<string, RolloutPolicy> = {
+  /** Any valid direction, credited to any team */
+  random: (state, rng) => {
+    const validDirs = getValidDirections(state);
+    if (validDirs.length === 0) return null;
+    return {
+      direction: validDirs[Math.floor(rng() * validDirs.length)],
+      team: state.teams[Math.floor(rng() * state.teams.length)].id,
+    };
+  },
+  /** A team picked uniformly wins the round and steers toward its fruit */
+  greedy: (state, rng) => {
+    const teams = teamsWithFruit(state);
+    if (teams.length === 0) return null;
+    return steerToward(state, teams[Math.floor(rng() * teams.length)]);
+  },
+  /**
+   * Like greedy, but teams with bigger pools (more voters) are more likely
+   * to get the last vote in.
+   */
+  'pool-weighted': (state, rng) => {
+    const teams = teamsWithFruit(state);
+    if (teams.length === 0) return null;
+    const weights = teams.map(id => (state.teamPools[id] || 0) + 1);
+    let pick = rng() * weights.reduce((sum, w) => sum + w, 0);
+    for (let i = 0; i < teams.length; i++) {
+      pick -= weights[i];
+      if (pick < 0) return steerToward(state, teams[i]);
+    }
+    return steerToward(state, teams[teams.length - 1]);
+  },
+};
+
+/**
+ * Look up a rollout policy by name.
+ */
+export function getRolloutPolicy(name: string): RolloutPolicy {
+  const policy = ROLLOUT_POLICIES[name];
+  if (!policy) {
+    throw new Error(`Unknown rollout policy: ${name}. Available: ${Object.keys(ROLLOUT_POLICIES).join(', ')}`);
+  }
+  return policy;
+}
+
+/**
+ * Fill in a server (or parsed.raw) game state to the simulator's shape,
+ * so advanceRound can play it forward. Missing config falls back to the
+ * server defaults; missing teams are inferred from the fruit.
+ */
+export function toSimGameState(raw: GameState | SimGameState): SimGameState {
+  const gs = raw as Partial<SimGameState> & GameState;
+  const config = (gs.config ?? {}) as Partial<SimGameState['config']>;
+  const gridType: GridType = gs.gridSize?.type ?? config.gridType ?? 'hexagonal';
+  const radius = gs.gridSize?.radius ?? config.hexRadius ?? 3;
+
+  const teamIds = Object.keys({ ...gs.apples, ...gs.fruitScores });
+  const teams: TeamConfig[] = (gs.teams as TeamConfig[] | undefined)
+    ?? teamIds.map(id => TEAM_CONFIG.find(t => t.id === id) ?? { id, name: id, color: '#888888', emoji: '?' });
+
+  const fruitScores: Record<string, number> = {};
+  const teamPools: Record<string, number> = {};
+  for (const team of teams) {
+    fruitScores[team.id] = gs.fruitScores?.[team.id] ?? 0;
+    teamPools[team.id] = gs.teamPools?.[team.id] ?? 0;
+  }
+
+  return {
+    ...gs,
+    id: gs.id ?? 0,
+    snake: {
+      body: gs.snake?.body ?? [],
+      currentDirection: gs.snake?.currentDirection as Direction,
+      currentWinningTeam: gs.snake?.currentWinningTeam ?? null,
+      currentWinningUser: gs.snake?.currentWinningUser ?? null,
+    },
+    gridSize: { type: gridType, radius },
+    apples: gs.apples ?? {},
+    eatenFruits: gs.eatenFruits ?? [],
+    fruitScores,
+    teamPools,
+    votes: gs.votes ?? {},
+    gameActive: gs.gameActive ?? true,
+    winner: gs.winner ?? null,
+    prizePool: gs.prizePool ?? 0,
+    nextMoveTime: gs.nextMoveTime ?? 0,
+    round: gs.round ?? 0,
+    countdown: gs.countdown ?? ROUND_TIMING.baseDurationSec,
+    totalRoundTime: gs.totalRoundTime ?? ROUND_TIMING.baseDurationSec,
+    minBid: gs.minBid ?? 1,
+    nonce: gs.nonce ?? 0,
+    config: {
+      roundDurationSeconds: ROUND_TIMING.baseDurationSec,
+      newGameDelaySeconds: 20,
+      extensionPeriodSeconds: ROUND_TIMING.extensionPeriodSec,
+      fruitsPerTeam: 3,
+      fruitsToWin: 3,
+      initialMinBid: 1,
+      startingBalance: 0,
+      auctionMode: 'all-pay-auction',
+      houseRake: 0,
+      respawn: true,
+      collision: false,
+      collisionMode: 'reset',
+      simpleBid: true,
+      initialSnakeLength: 1,
+      grow: true,
+      spawn: 'center',
+      spawnDirection: 'random',
+      ...config,
+      gridType,
+      hexRadius: radius,
+      numberOfTeams: teams.length,
+    },
+    teams,
+  };
+}
+
+/**
+ * Apply one round's move (null = nobody voted, the snake keeps going).
+ * Without collisions an invalid direction falls back to the first valid
+ * one, as the server would never let it through; returns null when there
+ * is no valid move at all.
+ */
+export function playMove(state: SimGameState, move: RolloutMove | null, rng: RNG): AdvanceResult | null {
+  const validDirs = getValidDirections(state);
+  const { direction: chosen, team } = move ?? { direction: state.snake.currentDirection, team: null };
+  let direction = chosen;
+  if (!state.config.collision && !validDirs.includes(direction)) {
+    if (validDirs.length === 0) return null;
+    direction = validDirs[0];
+  }
+  return advanceRound(state, direction, team, rng);
+}
+
+/**
+ * Play one game forward from `state`; returns the winner (null = draw)
+ * and the rounds it took.
+ */
+function rollout(state: SimGameState, policy: RolloutPolicy, maxRounds: number, rng: RNG): { winner: string | null; rounds: number } {
+  let current = state;
+  for (let round = 1; round <= maxRounds; round++) {
+    const result = playMove(current, policy(current, rng), rng);
+    if (!result) break;
+    if (result.winner) return { winner: result.winner, rounds: round };
+    current = result.gameState;
+    if (!current.gameActive) break;
+  }
+  return { winner: null, rounds: maxRounds };
+}
+
+/**
+ * Estimate each team's chance of winning from `state` (a raw server state,
+ * parsed.raw, or a simulator state) by seeded rollouts.
+ */
+export function estimateWinProbabilities(state: GameState | SimGameState, options: RolloutOptions = {}): WinProbabilities {
+  const start = toSimGameState(state);
+  const policy = typeof options.policy === 'function' ? options.policy : getRolloutPolicy(options.policy ?? 'pool-weighted');
+  const maxRounds = options.maxRounds ?? 100;
+  // At least one rollout always runs, so the shares below are defined
+  const maxRollouts = Math.max(1, options.rollouts ?? (options.timeLimitMs !== undefined ? Infinity : 200));
+  const deadline = options.timeLimitMs !== undefined ? Date.now() + options.timeLimitMs : Infinity;
+  const { rng, seed } = createRNG(options.seed);
+
+  const wins: Record<string, number> = {};
+  for (const team of start.teams) wins[team.id] = 0;
+
+  // Already decided
+  if (!start.gameActive || start.winner) {
+    if (start.winner) wins[start.winner] = 1;
+    return { teams: wins, draw: start.winner ? 0 : 1, rollouts: 0, meanRounds: 0, seed };
+  }
+
+  let rollouts = 0;
+  let draws = 0;
+  let decidedRounds = 0;
+  while (rollouts < maxRollouts && (rollouts === 0 || Date.now() < deadline)) {
+    const { winner, rounds } = rollout(start, policy, maxRounds, rng);
+    rollouts++;
+    if (winner) {
+      wins[winner] = (wins[winner] || 0) + 1;
+      decidedRounds += rounds;
+    } else {
+      draws++;
+    }
+  }
+
+  const teams: Record<string, number> = {};
+  for (const [id, count] of Object.entries(wins)) teams[id] = count / rollouts;
+  const decided = rollouts - draws;
+  return {
+    teams,
+    draw: draws / rollouts,
+    rollouts,
+    meanRounds: decided > 0 ? decidedRounds / decided : 0,
+    seed,
+  };
+}
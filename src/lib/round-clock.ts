@@ -0,0 +1,170 @@
+/**
+ * Event-driven round clock for the simulator.
+ *
+ * The default simulator resolves a round as an abstract loop: everyone
+ * votes, then overridden agents counter-bid in waves, each wave doubling
+ * minBid. With the clock, a round plays out on a virtual timeline the way
+ * it does on the server:
+ *
+ * - the round lasts roundDurationSeconds (10s); the last vote when the
+ *   timer runs out decides the move
+ * - each agent votes at a time of its choosing (by default within the
+ *   first poll interval, like the live runner)
+ * - a vote in the last extensionPeriodSeconds (5s) extends the round by
+ *   that period and doubles minBid for everyone after it
+ * - an agent whose vote is overridden (direction or team) notices after reactionTime
+ *   seconds (one poll) and may counter-bid, if the round is still open
+ * - a vote with a VoteTiming is held until its time, then re-decided
+ *   against the round as it is by then and submitted
+ *
+ * Strategies see `countdown`, `minBid` (and so `extensions` and
+ * `inExtensionWindow`), the pending direction and live pools at the
+ * moment they act.
+ */
+
+import type { SimAgent, SimGameState, RNG } from './simulator.js';
+import { voteDelay, overrideKind } from './strategies/base.js';
+import type { VoteAction } from './strategies/base.js';
+
+export interface ClockOptions {
+  /**
+   * When an agent first sees the round and decides its vote, in seconds
+   * after the round starts (the vote's own timing may hold it longer).
+   * Default: uniform in [0, pollInterval) — as soon as the new round is polled.
+   */
+  voteTime?: (agent: SimAgent, state: SimGameState, rng: RNG) => number;
+  /** Seconds an overridden agent takes to react with a counter-bid (default: 1) */
+  reactionTime?: number;
+  /** Spread of the default first-vote time, in seconds (default: 1) */
+  pollInterval?: number;
+}
+
+/** A vote placed on the clock */
+export interface ClockedVote {
+  agent: SimAgent;
+  vote: VoteAction;
+  /** Seconds since the round started */
+  time: number;
+  /** Extensions that had happened when the vote was placed */
+  extension: number;
+  counter: boolean;
+}
+
+export interface ClockedRoundResult {
+  votes: ClockedVote[];
+  extensions: number;
+  /** Total round length in seconds, including extensions */
+  duration: number;
+}
+
+interface ClockEvent {
+  time: number;
+  seq: number;
+  agent: SimAgent;
+  counter: boolean;
+  /** A held vote whose time has come: submit without consulting its timing again */
+  held: boolean;
+}
+
+/**
+ * Play one round's voting on the virtual clock. `agents` is the (already
+ * shuffled) agent order, which breaks ties between events at the same time.
+ * Returns the votes in the order they were placed.
+ */
+export function runClockedRound(
+  agents: SimAgent[],
+  state: SimGameState,
+  rng: RNG,
+  maxExtensions: number,
+  options: ClockOptions = {},
+): ClockedRoundResult {
+  const roundSeconds = state.config.roundDurationSeconds;
+  const extensionSeconds = state.config.extensionPeriodSeconds;
+  const reactionTime = options.reactionTime ?? 1;
+  const pollInterval = options.pollInterval ?? 1;
+  const voteTime = options.voteTime ?? ((): number => rng() * pollInterval);
+
+  let deadline = roundSeconds;
+  let extensions = 0;
+  let minBid = state.minBid;
+  let current: { agent: SimAgent; vote: VoteAction } | null = null;
+  const teamPools = { ...state.teamPools };
+  let prizePool = state.prizePool;
+
+  const votes: ClockedVote[] = [];
+  const latestVote = new Map<SimAgent, VoteAction>();
+  const pending = new Set<SimAgent>();
+  const queue: ClockEvent[] = [];
+  let seq = 0;
+
+  const schedule = (agent: SimAgent, time: number, counter: boolean, held = false): void => {
+    queue.push({ time, seq: seq++, agent, counter, held });
+    queue.sort((a, b) => a.time - b.time || a.seq - b.seq);
+    pending.add(agent);
+  };
+
+  /** The round as an agent sees it at time t */
+  const viewAt = (t: number): SimGameState => ({
+    ...state,
+    minBid,
+    countdown: deadline - t,
+    totalRoundTime: deadline,
+    teamPools: { ...teamPools },
+    prizePool,
+    snake: current
+      ? { ...state.snake, currentDirection: current.vote.direction, currentWinningTeam: current.vote.team.id }
+      : state.snake,
+  });
+
+  for (const agent of agents) {
+    schedule(agent, Math.max(0, voteTime(agent, state, rng)), false);
+  }
+
+  while (queue.length > 0) {
+    const event = queue.shift()!;
+    pending.delete(event.agent);
+    if (event.time >= deadline) continue;
+
+    const view = viewAt(event.time);
+    let vote: VoteAction | null;
+    if (event.counter) {
+      const ours = latestVote.get(event.agent);
+      // Still overridden? (someone else's vote is pending with another direction or team)
+      if (!ours || !current || current.agent === event.agent) continue;
+      if (!overrideKind(ours, current.vote.direction, current.vote.team.id)) continue;
+      vote = event.agent.planCounterBid(view, ours);
+    } else {
+      vote = event.agent.planVote(view);
+    }
+    if (!vote) continue;
+
+    const delay = event.held ? 0 : voteDelay(vote.timing, event.time, deadline - event.time);
+    if (delay > 0) {
+      schedule(event.agent, event.time + delay, event.counter, true);
+      continue;
+    }
+    event.agent.commitVote(vote);
+
+    votes.push({ agent: event.agent, vote, time: event.time, extension: extensions, counter: event.counter });
+    latestVote.set(event.agent, vote);
+    current = { agent: event.agent, vote };
+    teamPools[vote.team.id] = (teamPools[vote.team.id] || 0) + vote.amount;
+    prizePool += vote.amount;
+
+    // A vote inside the extension window extends the round and doubles minBid
+    if (deadline - event.time <= extensionSeconds && extensions < maxExtensions) {
+      deadline += extensionSeconds;
+      minBid *= 2;
+      extensions++;
+    }
+
+    // Agents whose vote was just overridden get a chance to react
+    for (const [agent, theirs] of latestVote) {
+      if (agent === event.agent || pending.has(agent)) continue;
+      if (!overrideKind(theirs, vote.direction, vote.team.id)) continue;
+      schedule(agent, event.time + reactionTime, true);
+    }
+  }
+
+  return { votes, extensions, duration: deadline };
+}
@@ -10,11 +10,13 @@ import {
   HEX_DIRECTIONS,
   CARTESIAN_DIRECTIONS,
   ALL_DIRECTION_OFFSETS,
+  ALL_OPPOSITES,
   isInBounds,
   isOnSnakeBody,
   getValidDirections,
   parseGameState,
   getDirectionsForGrid,
+  fruitSpawnMinDistance,
 } from './game-state.js';
 
 import type {
@@ -24,7 +26,13 @@ import type {
   ParsedGameState,
 } from './game-state.js';
 
-import type { VoteResult, VoteAction, AgentState } from './strategies/base.js';
+import { voteDelay, overrideKind } from './strategies/base.js';
+import type { VoteResult, VoteAction, VoteTiming, AgentState, OverrideKind } from './strategies/base.js';
+import { REPLAY_FORMAT_VERSION } from './replay.js';
+import { computePayouts } from './payouts.js';
+import { runClockedRound } from './round-clock.js';
+import type { ClockOptions } from './round-clock.js';
+import type { ReplayRecorder, ReplayVote } from './replay.js';
 
 // ── Seeded PRNG (mulberry32) ────────────────────────────────────────
 
@@ -64,7 +72,7 @@ export function shuffleArray<T>(arr: T[], rng: RNG): T[] {
 }
 
 // Team configs matching the server
-interface TeamConfig {
+export interface TeamConfig {
   id: string;
   name: string;
   color: string;
@@ -72,7 +80,7 @@ interface TeamConfig {
   [key: string]: unknown;
 }
 
-const TEAM_CONFIG: TeamConfig[] = [
+export const TEAM_CONFIG: TeamConfig[] = [
   { id: 'A', name: 'Blue', color: '#0066FF', emoji: '\u{1FAD0}' },
   { id: 'B', name: 'Red', color: '#FF0000', emoji: '\u{1F34E}' },
   { id: 'C', name: 'Yellow', color: '#FFDD00', emoji: '\u{1F34C}' },
@@ -81,6 +89,18 @@ const TEAM_CONFIG: TeamConfig[] = [
   { id: 'F', name: 'Orange', color: '#FF6600', emoji: '\u{1F34A}' },
 ];
 
+/**
+ * What happens when the snake hits a wall or itself with collision enabled:
+ * - 'reset': the snake respawns at its starting position, scores are kept
+ * - 'end':   the game ends immediately with no winner
+ */
+export type CollisionMode = 'reset' | 'end';
+
+/**
+ * Where the snake starts: the center cell, a random free cell, or a fixed cell.
+ */
+export type SpawnPosition = 'center' | 'random' | HexPos;
+
 // Rodeo cycle configs matching the server
 export interface RodeoCycleConfig {
   name: string;
@@ -94,6 +114,33 @@ export interface RodeoCycleConfig {
   initialSnakeLength: number;
   respawn: boolean;
   simpleBid: boolean;
+  /** Crashing into a wall or the body costs something (default: false — the server blocks invalid moves) */
+  collision?: boolean;
+  /** Crash handling when collision is on (default: 'reset') */
+  collisionMode?: CollisionMode;
+  /** Snake grows by one segment on every fruit (default: true; false keeps the length constant) */
+  grow?: boolean;
+  /** Starting head position (default: 'center') */
+  spawn?: SpawnPosition;
+  /** Starting direction, or 'random' (default: n / up) */
+  spawnDirection?: Direction | 'random';
+  /** Custom team list; its length must equal numberOfTeams (default: the first numberOfTeams of TEAM_CONFIG) */
+  teams?: TeamConfig[];
+  /** Payout model, see PAYOUT_MODELS (default: 'all-pay-auction' — split by vote count) */
+  auctionMode?: string;
+  /** Fraction of the prize pool kept by the house before payout (default: 0) */
+  houseRake?: number;
+}
+
+/**
+ * The teams playing under a config.
+ */
+export function teamsForConfig(config: RodeoCycleConfig): TeamConfig[] {
+  if (config.teams) return config.teams;
+  if (config.numberOfTeams > TEAM_CONFIG.length) {
+    throw new Error(`Config "${config.name}" has ${config.numberOfTeams} teams but only ${TEAM_CONFIG.length} default teams exist; provide a teams list`);
+  }
+  return TEAM_CONFIG.slice(0, config.numberOfTeams);
 }
 
 export const RODEO_CYCLES: RodeoCycleConfig[] = [
@@ -219,11 +266,15 @@ export interface SimGameState {
     startingBalance: number;
     numberOfTeams: number;
     auctionMode: string;
+    houseRake: number;
     respawn: boolean;
     collision: boolean;
+    collisionMode: CollisionMode;
     simpleBid: boolean;
     initialSnakeLength: number;
     grow: boolean;
+    spawn: SpawnPosition;
+    spawnDirection: Direction | 'random';
   };
   teams: TeamConfig[];
   [key: string]: unknown;
@@ -258,7 +309,23 @@ export interface Strategy {
   name: string;
   description?: string;
   computeVote(parsed: ParsedGameState, balance: number, state: AgentState): VoteResult;
-  shouldCounterBid?(parsed: ParsedGameState, balance: number, state: AgentState, ourVote: VoteAction): VoteResult;
+  shouldCounterBid?(
+    parsed: ParsedGameState,
+    balance: number,
+    state: AgentState,
+    ourVote: VoteAction,
+    override: OverrideKind,
+  ): VoteResult;
+  /** Timing for votes that don't carry their own */
+  voteTiming?(parsed: ParsedGameState): VoteTiming | undefined;
+  /** Lifecycle hooks, called with the parsed state at each point */
+  onGameStart?(parsed: ParsedGameState, state: AgentState): void;
+  onRoundEnd?(parsed: ParsedGameState, state: AgentState): void;
+  onGameEnd?(parsed: ParsedGameState, state: AgentState, didWin: boolean): void;
+  /** State kept across games (see BaseStrategy.memory) */
+  memory?: Record<string, unknown>;
+  /** Receives the game's seeded RNG. Strategies without it must not rely on randomness for reproducibility. */
+  setRNG?(rng: RNG): void;
 }
 
 interface ConfigResult {
@@ -274,7 +341,21 @@ export interface TournamentResults {
   wins: Record<string, number>;
   avgRounds: number;
   configResults: ConfigResult[];
-  agentStats?: { name: string; strategy: string; gamesPlayed: number; wins: number; winRate: string; totalSpent: number; totalEarned: number; profit: number; roi: string }[];
+  agentStats?: {
+    name: string;
+    strategy: string;
+    gamesPlayed: number;
+    wins: number;
+    winRate: string;
+    totalSpent: number;
+    totalEarned: number;
+    profit: number;
+    roi: string;
+    /** Team switches across all games */
+    switches: number;
+    /** Spend on teams the agent left that then lost */
+    abandonedSpent: number;
+  }[];
   seed: number;
 }
 
@@ -288,10 +369,7 @@ function generateFruitPosition(
   rng: RNG = Math.random,
   gridType: GridType = 'hexagonal',
 ): HexPos {
-  let minDistFromCenter: number;
-  if (radius === 2) minDistFromCenter = 1;
-  else if (radius === 3) minDistFromCenter = 2;
-  else minDistFromCenter = Math.floor(radius * 0.5);
+  const minDistFromCenter = fruitSpawnMinDistance(radius);
 
   if (gridType === 'cartesian') {
     // Cartesian: random q,r in square bounds
@@ -335,17 +413,196 @@ function generateFruitPosition(
   return { q: 0, r: 0 };
 }
 
+interface SpawnOptions {
+  radius: number;
+  gridType: GridType;
+  length: number;
+  spawn: SpawnPosition;
+  spawnDirection: Direction | 'random';
+}
+
+/**
+ * Lay out a body of the given length behind the head, facing `direction`.
+ * Segments trail straight back where possible and bend around walls.
+ * Returns null if the body doesn't fit.
+ */
+function layOutBody(head: HexPos, direction: Direction, length: number, radius: number, gridType: GridType): HexPos[] | null {
+  if (!isInBounds(head.q, head.r, radius, gridType)) return null;
+
+  const ahead = ALL_DIRECTION_OFFSETS[direction];
+  const back = ALL_DIRECTION_OFFSETS[ALL_OPPOSITES[direction]];
+  const body: HexPos[] = [head];
+
+  while (body.length < length) {
+    const last = body[body.length - 1];
+    const candidates = [back, ...getDirectionsForGrid(gridType).map(([, off]) => off)];
+    let next: HexPos | null = null;
+    for (const off of candidates) {
+      const q = last.q + off.q;
+      const r = last.r + off.r;
+      if (!isInBounds(q, r, radius, gridType)) continue;
+      if (isOnSnakeBody(q, r, body)) continue;
+      // The neck must not sit in front of the head
+      if (body.length === 1 && off.q === ahead.q && off.r === ahead.r) continue;
+      next = { q, r };
+      break;
+    }
+    if (!next) return null;
+    body.push(next);
+  }
+
+  return body;
+}
+
+/**
+ * Starting snake body and direction, built from the configured length,
+ * spawn position and spawn direction.
+ */
+function spawnSnake(opts: SpawnOptions, rng: RNG = Math.random): { body: HexPos[]; currentDirection: Direction } {
+  const { radius, gridType, length, spawn, spawnDirection } = opts;
+  const dirs = getDirectionsForGrid(gridType).map(([dir]) => dir);
+
+  const pickDirection = (): Direction => {
+    if (spawnDirection === 'random') return dirs[(rng() * dirs.length) | 0];
+    if (!dirs.includes(spawnDirection)) {
+      throw new Error(`Spawn direction ${spawnDirection} is not valid on a ${gridType} grid`);
+    }
+    return spawnDirection;
+  };
+
+  if (spawn === 'random') {
+    for (let attempts = 0; attempts < 1000; attempts++) {
+      const q = Math.floor(rng() * (2 * radius + 1)) - radius;
+      const r = Math.floor(rng() * (2 * radius + 1)) - radius;
+      const currentDirection = pickDirection();
+      const body = layOutBody({ q, r }, currentDirection, length, radius, gridType);
+      if (body) return { body, currentDirection };
+    }
+    throw new Error(`Could not find a random spawn for a snake of length ${length}`);
+  }
+
+  const head: HexPos = spawn === 'center' ? { q: 0, r: 0 } : spawn;
+  const currentDirection = pickDirection();
+  const body = layOutBody(head, currentDirection, length, radius, gridType);
+  if (!body) {
+    throw new Error(`Snake of length ${length} does not fit at (${head.q},${head.r}) on a radius-${radius} ${gridType} grid`);
+  }
+  return { body, currentDirection };
+}
+
+/**
+ * Why the configured starting snake can't be laid out (null = it fits).
+ * A fixed spawn must fit facing every direction it may start in; a
+ * random spawn needs at least one cell and direction that fit.
+ */
+export function spawnLayoutError(config: RodeoCycleConfig): string | null {
+  const radius = config.hexRadius;
+  const gridType: GridType = config.gridType || 'hexagonal';
+  const length = config.initialSnakeLength || 1;
+  const spawn = config.spawn || 'center';
+  const spawnDirection = config.spawnDirection || (gridType === 'cartesian' ? 'up' : 'n');
+  const facing = spawnDirection === 'random' ? getDirectionsForGrid(gridType).map(([dir]) => dir) : [spawnDirection];
+
+  if (spawn === 'random') {
+    for (let q = -radius; q <= radius; q++) {
+      for (let r = -radius; r <= radius; r++) {
+        if (facing.some(dir => layOutBody({ q, r }, dir, length, radius, gridType))) return null;
+      }
+    }
+    return `a snake of length ${length} fits nowhere on a radius-${radius} ${gridType} grid`;
+  }
+
+  const head: HexPos = spawn === 'center' ? { q: 0, r: 0 } : spawn;
+  const misfit = facing.find(dir => !layOutBody(head, dir, length, radius, gridType));
+  return misfit
+    ? `a snake of length ${length} does not fit at (${head.q},${head.r}) facing ${misfit} on a radius-${radius} ${gridType} grid`
+    : null;
+}
+
+/** Spawn options stored in a game's config (used to respawn after a crash) */
+function spawnOptionsFor(gameState: SimGameState): SpawnOptions {
+  return {
+    radius: gameState.gridSize.radius,
+    gridType: (gameState.gridSize.type || 'hexagonal') as GridType,
+    length: gameState.config.initialSnakeLength,
+    spawn: gameState.config.spawn,
+    spawnDirection: gameState.config.spawnDirection,
+  };
+}
+
+/**
+ * Apply a crash when collision is enabled: either respawn the snake or
+ * end the game without a winner, depending on config.collisionMode.
+ * Fruit under the respawned body is moved to a free cell.
+ */
+function crashSnake(
+  gameState: SimGameState,
+  event: 'collision_boundary' | 'collision_self',
+  winningTeamId: string | null,
+  rng: RNG,
+): AdvanceResult {
+  const base = {
+    ...gameState,
+    round: gameState.round + 1,
+    nonce: gameState.nonce + 1,
+  };
+
+  if (gameState.config.collisionMode === 'end') {
+    return {
+      gameState: { ...base, gameActive: false, winner: null },
+      event,
+      winner: null,
+    };
+  }
+
+  const { body, currentDirection } = spawnSnake(spawnOptionsFor(gameState), rng);
+
+  // Fruit the new body landed on could never be eaten: move it elsewhere
+  const radius = gameState.gridSize.radius;
+  const gridType = (gameState.gridSize.type || 'hexagonal') as GridType;
+  const apples: Record<string, HexPos[]> = {};
+  const allFruits = Object.values(gameState.apples).flat();
+  for (const [team, fruits] of Object.entries(gameState.apples)) {
+    apples[team] = fruits.map(fruit => {
+      if (!isOnSnakeBody(fruit.q, fruit.r, body)) return fruit;
+      const moved = generateFruitPosition(body, allFruits, radius, rng, gridType);
+      allFruits.push(moved);
+      return moved;
+    });
+  }
+
+  return {
+    gameState: {
+      ...base,
+      apples,
+      snake: {
+        body,
+        currentDirection,
+        currentWinningTeam: winningTeamId,
+        currentWinningUser: null,
+      },
+    },
+    event,
+    winner: null,
+  };
+}
+
 /**
  * Create initial game state for a simulation
  */
 export function createGameState(config: RodeoCycleConfig, rng: RNG = Math.random): SimGameState {
-  const teams = TEAM_CONFIG.slice(0, config.numberOfTeams);
+  const teams = teamsForConfig(config);
   const radius = config.hexRadius;
   const gridType: GridType = config.gridType || 'hexagonal';
-  const initialDir: Direction = gridType === 'cartesian' ? 'up' : 'n';
-
-  // Snake starts at center
-  const body: HexPos[] = [{ q: 0, r: 0 }];
+  const spawn = config.spawn || 'center';
+  const spawnDirection = config.spawnDirection || (gridType === 'cartesian' ? 'up' : 'n');
+  const { body, currentDirection: initialDir } = spawnSnake({
+    radius,
+    gridType,
+    length: config.initialSnakeLength || 1,
+    spawn,
+    spawnDirection,
+  }, rng);
 
   // Generate fruits for each team
   const apples: Record<string, HexPos[]> = {};
@@ -400,12 +657,16 @@ export function createGameState(config: RodeoCycleConfig, rng: RNG = Math.random
       initialMinBid: config.initialMinBid || 1,
       startingBalance: config.startingBalance,
       numberOfTeams: config.numberOfTeams,
-      auctionMode: 'all-pay-auction',
+      auctionMode: config.auctionMode || 'all-pay-auction',
+      houseRake: config.houseRake ?? 0,
       respawn: config.respawn !== false,
-      collision: false,
+      collision: config.collision === true,
+      collisionMode: config.collisionMode || 'reset',
       simpleBid: true,
       initialSnakeLength: config.initialSnakeLength || 1,
-      grow: false,
+      grow: config.grow !== false,
+      spawn,
+      spawnDirection,
     },
     teams,
   };
@@ -431,14 +692,16 @@ export function advanceRound(
   const radius = gameState.gridSize.radius;
   const gridType = (gameState.gridSize.type || 'hexagonal') as GridType;
 
-  // Check collision (boundary or self)
+  // Check collision (boundary or self). Without the collision flag the
+  // server never lets an invalid move through, so the state is unchanged.
   if (!isInBounds(newHead.q, newHead.r, radius, gridType)) {
-    // Invalid move - game over or skip (server prevents this)
+    if (gameState.config.collision) return crashSnake(gameState, 'collision_boundary', winningTeamId, rng);
     return { gameState, event: 'collision_boundary' };
   }
 
   const bodyWithoutTail = gameState.snake.body.slice(0, -1);
   if (bodyWithoutTail.some(seg => seg.q === newHead.q && seg.r === newHead.r)) {
+    if (gameState.config.collision) return crashSnake(gameState, 'collision_self', winningTeamId, rng);
     return { gameState, event: 'collision_self' };
   }
 
@@ -478,7 +741,7 @@ export function advanceRound(
       q: ateFruit.q,
       r: ateFruit.r,
       team: winningTeamId || ateTeam,
-      emoji: TEAM_CONFIG.find(t => t.id === ateTeam)?.emoji || '?',
+      emoji: gameState.teams.find(t => t.id === ateTeam)?.emoji || '?',
       order: newEatenFruits.length + 1,
     });
 
@@ -490,8 +753,8 @@ export function advanceRound(
     }
   }
 
-  // Snake growth: remove tail unless fruit was eaten (classic snake)
-  const finalBody = ateFruit ? newBody : newBody.slice(0, -1);
+  // Snake growth: keep the tail on fruit only when grow is enabled
+  const finalBody = ateFruit && gameState.config.grow ? newBody : newBody.slice(0, -1);
 
   // Check win condition
   let winner: string | null = null;
@@ -502,9 +765,9 @@ export function advanceRound(
     }
   }
 
-  // Also handle initial growth (first 2 moves grow to length 3)
+  // Also handle initial growth (first 2 moves grow to length 3) when growing
   let growthBody = finalBody;
-  if (!ateFruit && gameState.snake.body.length < 3 && gameState.round < 2) {
+  if (gameState.config.grow && finalBody.length < newBody.length && gameState.snake.body.length < 3 && gameState.round < 2) {
     growthBody = newBody; // keep the tail for initial growth
   }
 
@@ -550,6 +813,16 @@ export class SimAgent {
   /** Cumulative earnings across all games (persists through reset) */
   cumulativeEarned: number;
   votesPlaced: number;
+  /** Votes cast this game, per team */
+  votesByTeam: Record<string, number>;
+  /** Spend this game, per team */
+  spentByTeam: Record<string, number>;
+  /** Times this game the agent voted for a different team than its previous vote */
+  switches: number;
+  /** Cumulative team switches across all games */
+  cumulativeSwitches: number;
+  /** Cumulative spend on teams the agent left that lost (see abandonedSpent) */
+  cumulativeAbandonedSpent: number;
   wins: number;
   gamesPlayed: number;
   fruitsCollected: number;
@@ -565,6 +838,11 @@ export class SimAgent {
     this.cumulativeSpent = 0;
     this.cumulativeEarned = 0;
     this.votesPlaced = 0;
+    this.votesByTeam = {};
+    this.spentByTeam = {};
+    this.switches = 0;
+    this.cumulativeSwitches = 0;
+    this.cumulativeAbandonedSpent = 0;
     this.wins = 0;
     this.gamesPlayed = 0;
     this.fruitsCollected = 0;
@@ -576,6 +854,20 @@ export class SimAgent {
     this.totalSpent = 0;
     this.totalEarned = 0;
     this.votesPlaced = 0;
+    this.votesByTeam = {};
+    this.spentByTeam = {};
+    this.switches = 0;
+  }
+
+  /**
+   * Spend this game on teams the agent walked away from that then lost —
+   * what switching cost it. Votes left on the eventual `winner` still
+   * earn their share, so that spend isn't counted.
+   */
+  abandonedSpent(winner: string | null): number {
+    return Object.entries(this.spentByTeam)
+      .filter(([team]) => team !== this.currentTeam && team !== winner)
+      .reduce((sum, [, spent]) => sum + spent, 0);
   }
 
   // Per-round tracking (reset each round by simulateGame)
@@ -585,12 +877,10 @@ export class SimAgent {
   /** Max fraction of balance to spend in a single round */
   maxRoundBudgetPct: number = 0.2;
 
-  computeVote(gameState: SimGameState): VoteAction | null {
-    const parsed = parseGameState(gameState);
-    if (!parsed || !parsed.active) return null;
-
+  /** The AgentState handed to the strategy */
+  agentState(): AgentState {
     const roundBudget = this.balance * this.maxRoundBudgetPct;
-    const state: AgentState = {
+    return {
       currentTeam: this.currentTeam,
       roundSpend: this.roundSpend,
       roundVoteCount: this.roundVoteCount,
@@ -600,54 +890,80 @@ export class SimAgent {
       votesPlaced: this.votesPlaced,
       wins: this.wins,
     };
+  }
 
-    const result = this.strategy.computeVote(parsed, this.balance, state);
-    if (!result || 'skip' in result) return null;
+  /**
+   * Decide a vote and book it against the agent's balance.
+   */
+  computeVote(gameState: SimGameState): VoteAction | null {
+    const vote = this.planVote(gameState);
+    if (vote) this.commitVote(vote);
+    return vote;
+  }
 
-    this.currentTeam = result.team.id;
-    this.balance -= result.amount;
-    this.totalSpent += result.amount;
-    this.votesPlaced++;
-    this.roundSpend += result.amount;
-    this.roundVoteCount++;
+  /**
+   * Ask the strategy for a vote without booking it, with its timing
+   * filled in from the strategy's default if the vote has none.
+   */
+  planVote(gameState: SimGameState): VoteAction | null {
+    const parsed = parseGameState(gameState);
+    if (!parsed || !parsed.active) return null;
 
-    return result;
+    const state = this.agentState();
+
+    const result = this.strategy.computeVote(parsed, this.balance, state);
+    if (!result || 'skip' in result) return null;
+    return this.withTiming(result, parsed);
   }
 
   /**
-   * Attempt a counter-bid after being overridden.
+   * Attempt a counter-bid after being overridden (by direction or team,
+   * judged against the pending move in `gameState.snake`).
    * Returns a VoteAction if the agent wants to counter, null otherwise.
    */
   computeCounterBid(gameState: SimGameState, previousVote: VoteAction): VoteAction | null {
+    const vote = this.planCounterBid(gameState, previousVote);
+    if (vote) this.commitVote(vote);
+    return vote;
+  }
+
+  /**
+   * Ask the strategy for a counter-bid without booking it (see planVote).
+   */
+  planCounterBid(gameState: SimGameState, previousVote: VoteAction): VoteAction | null {
     if (!this.strategy.shouldCounterBid) return null;
 
     const parsed = parseGameState(gameState);
     if (!parsed || !parsed.active) return null;
     if (this.balance < parsed.minBid) return null;
+    const override = overrideKind(previousVote, parsed.currentDirection, parsed.currentWinningTeam);
+    if (!override) return null;
 
-    const roundBudget = this.balance * this.maxRoundBudgetPct;
-    const state: AgentState = {
-      currentTeam: this.currentTeam,
-      roundSpend: this.roundSpend,
-      roundVoteCount: this.roundVoteCount,
-      roundBudgetRemaining: Math.max(0, roundBudget - this.roundSpend),
-      lastRound: -1,
-      gamesPlayed: this.gamesPlayed,
-      votesPlaced: this.votesPlaced,
-      wins: this.wins,
-    };
+    const state = this.agentState();
 
-    const result = this.strategy.shouldCounterBid(parsed, this.balance, state, previousVote);
+    const result = this.strategy.shouldCounterBid(parsed, this.balance, state, previousVote, override);
     if (!result || 'skip' in result) return null;
+    return this.withTiming(result, parsed);
+  }
+
+  private withTiming(vote: VoteAction, parsed: ParsedGameState): VoteAction {
+    if (vote.timing) return vote;
+    const timing = this.strategy.voteTiming?.(parsed);
+    return timing ? { ...vote, timing } : vote;
+  }
 
-    this.currentTeam = result.team.id;
-    this.balance -= result.amount;
-    this.totalSpent += result.amount;
+  /** Book a vote against the agent's balance and per-team tallies */
+  commitVote(vote: VoteAction): void {
+    const team = vote.team.id;
+    if (this.currentTeam !== null && this.currentTeam !== team) this.switches++;
+    this.currentTeam = team;
+    this.balance -= vote.amount;
+    this.totalSpent += vote.amount;
     this.votesPlaced++;
-    this.roundSpend += result.amount;
+    this.votesByTeam[team] = (this.votesByTeam[team] || 0) + 1;
+    this.spentByTeam[team] = (this.spentByTeam[team] || 0) + vote.amount;
+    this.roundSpend += vote.amount;
     this.roundVoteCount++;
-
-    return result;
   }
 
   /** Reset per-round counters (called at start of each round) */
@@ -663,6 +979,18 @@ export interface SimulateOptions {
   seed?: number;
   /** Max counter-bid extensions per round (default: 5). Each extension doubles minBid. */
   maxExtensions?: number;
+  /** Receives a replay entry for the game header, every round, and the game end */
+  recorder?: ReplayRecorder;
+  /** Tournament runs: called with each game's record as soon as it finishes */
+  onGame?: (record: GameRecord) => void;
+  /** Keep each agent's balance from the previous game instead of resetting it (see bankroll.ts) */
+  bankroll?: boolean;
+  /**
+   * Play rounds on a virtual clock (see round-clock.ts): agents vote at chosen
+   * times and only votes in the last extensionPeriodSeconds extend the round.
+   * `true` uses the default timing.
+   */
+  clock?: ClockOptions | boolean;
 }
 
 /**
@@ -670,13 +998,15 @@ export interface SimulateOptions {
  *
  * Each round:
  * 1. Reset per-round budgets, shuffle agent order
- * 2. All agents compute initial votes
+ * 2. All agents compute initial votes (held votes, see VoteTiming, go last)
  * 3. "Last vote wins" — reveal the winning direction
  * 4. Counter-bidding loop: agents whose direction was overridden can
  *    counter-bid. Each counter-bid doubles minBid (extension mechanic).
  *    Loop until no one counters or max extensions reached.
  * 5. Snake moves in the final winning direction
  * 6. Repeat until a team wins or max rounds reached
+ *
+ * With `options.clock`, steps 2-4 run on the virtual round clock instead.
  */
 export function simulateGame(
   agents: SimAgent[],
@@ -686,19 +1016,45 @@ export function simulateGame(
   const maxRounds = options.maxRounds || 200;
   const verbose = options.verbose || false;
   const maxExtensions = options.maxExtensions ?? 5;
+  const recorder = options.recorder;
+  const clock = options.clock === true ? {} : options.clock || null;
   const { rng, seed } = createRNG(options.seed);
 
   let gameState = createGameState(config, rng);
 
-  // Reset agents
+  recorder?.record({
+    type: 'header',
+    version: REPLAY_FORMAT_VERSION,
+    source: 'simulator',
+    seed,
+    config,
+    agents: agents.map(a => ({ id: a.id, name: a.name, strategy: a.strategy.name })),
+    initialState: gameState,
+  });
+
+  // Reset agents and hand their strategies the game's seeded RNG
   for (const agent of agents) {
-    agent.reset(config.startingBalance * 2);
+    agent.reset(options.bankroll ? agent.balance : config.startingBalance * 2);
     agent.gamesPlayed++;
+    agent.strategy.setRNG?.(rng);
   }
 
   const roundLog: RoundLogEntry[] = [];
   const agentOrder = [...agents];
 
+  // Lifecycle hooks (parsing is skipped when no strategy has the hook)
+  const notify = (hook: 'onGameStart' | 'onRoundEnd'): void => {
+    if (!agents.some(a => a.strategy[hook])) return;
+    const parsed = parseGameState(gameState);
+    if (!parsed) return;
+    for (const agent of agents) agent.strategy[hook]?.(parsed, agent.agentState());
+  };
+  notify('onGameStart');
+
+  // Order of each agent's latest vote per team, for payout models that care who voted last
+  const lastVoteAt = new Map<SimAgent, Record<string, number>>();
+  let voteCount = 0;
+
   for (let round = 0; round < maxRounds; round++) {
     if (!gameState.gameActive) break;
 
@@ -708,44 +1064,90 @@ export function simulateGame(
     // Shuffle agent order for fairness
     shuffleArray(agentOrder, rng);
 
-    // === Phase 1: Initial votes ===
-    const savedRandom = Math.random;
-    Math.random = rng;
+    const preState = gameState;
+    const replayVotes: ReplayVote[] = [];
+    const recordVote = (agent: SimAgent, vote: VoteAction, extension: number, counter = extension > 0, time?: number): void => {
+      lastVoteAt.set(agent, { ...lastVoteAt.get(agent), [vote.team.id]: voteCount++ });
+      if (!recorder) return;
+      replayVotes.push({
+        agent: agent.name,
+        direction: vote.direction,
+        team: vote.team.id,
+        amount: vote.amount,
+        counter,
+        extension,
+        ...(time !== undefined ? { time } : {}),
+        reason: vote.reason,
+      });
+    };
+
     const votes: { agent: SimAgent; vote: VoteAction }[] = [];
-    try {
+    let extensions = 0;
+    if (clock) {
+      // === Clocked round: votes, counter-bids and extensions on a virtual timeline ===
+      const clocked = runClockedRound(agentOrder, gameState, rng, maxExtensions, clock);
+      for (const { agent, vote, extension, counter, time } of clocked.votes) {
+        votes.push({ agent, vote });
+        recordVote(agent, vote, extension, counter, time);
+      }
+      extensions = clocked.extensions;
+    } else {
+      // === Phase 1: Initial votes ===
+      // Everyone sees the same state, so vote timing only sets the order:
+      // whoever holds their vote longest has the last word.
       for (const agent of agentOrder) {
         const vote = agent.computeVote(gameState);
-        if (vote) {
-          votes.push({ agent, vote });
-        }
+        if (vote) votes.push({ agent, vote });
       }
-    } finally {
-      Math.random = savedRandom;
+      const roundSeconds = gameState.config.roundDurationSeconds;
+      votes.sort((a, b) => voteDelay(a.vote.timing, 0, roundSeconds) - voteDelay(b.vote.timing, 0, roundSeconds));
+      for (const { agent, vote } of votes) recordVote(agent, vote, 0);
     }
 
     if (votes.length === 0) {
       // No votes — snake continues in current direction
       const validDirs = getValidDirections(gameState);
-      if (validDirs.length === 0) {
-        if (verbose) console.log(`Round ${round}: Dead end!`);
-        break;
+      let dir: Direction = gameState.snake.currentDirection;
+      if (!gameState.config.collision) {
+        if (validDirs.length === 0) {
+          if (verbose) console.log(`Round ${round}: Dead end!`);
+          break;
+        }
+        if (!validDirs.includes(dir)) dir = validDirs[0];
       }
-      const dir = validDirs.includes(gameState.snake.currentDirection)
-        ? gameState.snake.currentDirection
-        : validDirs[0];
       const result = advanceRound(gameState, dir, null, rng);
+      if (verbose && result.event.startsWith('collision')) {
+        console.log(`Round ${round}: ${result.event} (no votes)`);
+      }
+      recorder?.record({
+        type: 'round',
+        round,
+        preState,
+        votes: [],
+        extensions: 0,
+        result: {
+          direction: dir,
+          winningTeam: null,
+          event: result.event,
+          ateFruit: result.ateFruit,
+          ateTeam: result.ateTeam,
+          winner: result.winner,
+        },
+      });
       gameState = result.gameState;
+      notify('onRoundEnd');
       continue;
     }
 
     // === Phase 2: Counter-bidding loop ===
-    // The last vote determines direction + team. Agents whose preferred
-    // direction was overridden can counter-bid (at escalating cost).
+    // The last vote determines direction + team. Agents whose latest vote
+    // was overridden — a different direction, or the same direction
+    // credited to another team — can counter-bid (at escalating cost).
+    // (Skipped for clocked rounds, which already resolved counter-bids.)
     let currentMinBid = gameState.minBid;
-    let extensions = 0;
     let lastVote = votes[votes.length - 1];
 
-    for (let ext = 0; ext < maxExtensions; ext++) {
+    for (let ext = 0; !clock && ext < maxExtensions; ext++) {
       // Double minBid for the counter-bid (extension penalty)
       const counterBidCost = currentMinBid * 2;
 
@@ -760,11 +1162,15 @@ export function simulateGame(
         },
       };
 
-      // Find agents whose direction was overridden
-      const overridden = votes.filter(v =>
-        v.agent !== lastVote.agent &&
-        v.vote.direction !== lastVote.vote.direction
-      );
+      // Find agents whose latest vote was overridden
+      const latest = new Map<SimAgent, VoteAction>();
+      for (const { agent, vote } of votes) latest.set(agent, vote);
+      const overridden = [...latest]
+        .filter(([agent, vote]) =>
+          agent !== lastVote.agent &&
+          overrideKind(vote, lastVote.vote.direction, lastVote.vote.team.id) !== null
+        )
+        .map(([agent, vote]) => ({ agent, vote }));
 
       if (overridden.length === 0) break;
 
@@ -773,18 +1179,14 @@ export function simulateGame(
       shuffleArray(counterOrder, rng);
 
       let anyCountered = false;
-      Math.random = rng;
-      try {
-        for (const { agent, vote: prevVote } of counterOrder) {
-          const counter = agent.computeCounterBid(gameState, prevVote);
-          if (counter) {
-            votes.push({ agent, vote: counter });
-            lastVote = { agent, vote: counter };
-            anyCountered = true;
-          }
+      for (const { agent, vote: prevVote } of counterOrder) {
+        const counter = agent.computeCounterBid(gameState, prevVote);
+        if (counter) {
+          votes.push({ agent, vote: counter });
+          recordVote(agent, counter, ext + 1);
+          lastVote = { agent, vote: counter };
+          anyCountered = true;
         }
-      } finally {
-        Math.random = savedRandom;
       }
 
       if (!anyCountered) break;
@@ -800,16 +1202,20 @@ export function simulateGame(
     const direction = lastVote.vote.direction;
     const winningTeam = lastVote.vote.team.id;
 
-    // Record team pool contributions for ALL votes (initial + counters)
+    // Record team pool contributions for ALL votes (initial + counters).
+    // Copy the pools so earlier states (e.g. replay snapshots) stay intact.
+    const teamPools = { ...gameState.teamPools };
+    let prizePool = gameState.prizePool;
     for (const { vote } of votes) {
-      gameState.teamPools[vote.team.id] = (gameState.teamPools[vote.team.id] || 0) + vote.amount;
-      gameState.prizePool += vote.amount;
+      teamPools[vote.team.id] = (teamPools[vote.team.id] || 0) + vote.amount;
+      prizePool += vote.amount;
     }
+    gameState = { ...gameState, teamPools, prizePool };
 
-    // Validate direction
+    // Validate direction (with collision enabled, bad moves are allowed to crash)
     const validDirs = getValidDirections(gameState);
     let actualDir: Direction = direction;
-    if (!validDirs.includes(direction)) {
+    if (!gameState.config.collision && !validDirs.includes(direction)) {
       actualDir = validDirs[0];
       if (!actualDir) break;
     }
@@ -818,7 +1224,9 @@ export function simulateGame(
 
     if (verbose) {
       const extStr = extensions > 0 ? ` (${extensions} ext)` : '';
-      if (result.ateFruit) {
+      if (result.event.startsWith('collision')) {
+        console.log(`Round ${round}: ${actualDir} → ${result.event}${extStr}`);
+      } else if (result.ateFruit) {
         console.log(`Round ${round}: ${winningTeam} ate fruit!${extStr} Scores: ${JSON.stringify(result.gameState.fruitScores)}`);
       } else if (extensions > 0) {
         console.log(`Round ${round}: ${actualDir} → ${winningTeam}${extStr}`);
@@ -837,27 +1245,58 @@ export function simulateGame(
       })),
     });
 
+    recorder?.record({
+      type: 'round',
+      round,
+      preState,
+      votes: replayVotes,
+      extensions,
+      result: {
+        direction: actualDir,
+        winningTeam,
+        event: result.event,
+        ateFruit: result.ateFruit,
+        ateTeam: result.ateTeam,
+        winner: result.winner,
+      },
+    });
+
     gameState = result.gameState;
+    notify('onRoundEnd');
 
     if (result.winner) {
-      // Calculate payouts: proportional to votes placed on winning team.
-      // The real server pays per-vote-count, not equal split.
-      // Agent with 10 votes gets 10 shares, agent with 5 gets 5.
-      const winningAgents = agents.filter(a => a.currentTeam === result.winner);
-      const totalWinningVotes = winningAgents.reduce((sum, a) => sum + a.votesPlaced, 0);
+      // Split the prize pool among everyone who voted for the winning team
+      // using the config's payout model (default: by vote count, like the
+      // server). Only votes cast on the winning team count — votes an agent
+      // placed on teams it later left earn nothing.
+      const winner = result.winner;
+      const winningAgents = agents.filter(a => (a.votesByTeam[winner] || 0) > 0);
+      const { payouts, rake } = computePayouts(
+        gameState.config.auctionMode,
+        winningAgents.map((a, i) => ({
+          id: String(i),
+          votes: a.votesByTeam[winner],
+          amount: a.spentByTeam[winner] || 0,
+          lastVote: lastVoteAt.get(a)?.[winner] ?? -1,
+        })),
+        gameState.prizePool,
+        gameState.config.houseRake,
+      );
 
+      winningAgents.forEach((agent, i) => {
+        const payout = payouts[String(i)] || 0;
+        agent.totalEarned += payout;
+        agent.balance += payout;
+      });
+      // A win means finishing the game on the winning team
       for (const agent of agents) {
-        if (agent.currentTeam === result.winner) {
-          agent.wins++;
-          if (totalWinningVotes > 0) {
-            const share = agent.votesPlaced / totalWinningVotes;
-            agent.totalEarned += gameState.prizePool * share;
-          }
-        }
+        if (agent.currentTeam === winner) agent.wins++;
       }
 
       if (verbose) {
-        console.log(`Game over! Winner: ${result.winner} in ${round + 1} rounds (pool: ${gameState.prizePool}, ${totalWinningVotes} votes from ${winningAgents.length} agents)`);
+        const totalWinningVotes = winningAgents.reduce((sum, a) => sum + a.votesByTeam[winner], 0);
+        const rakeStr = rake > 0 ? `, rake: ${rake.toFixed(2)}` : '';
+        console.log(`Game over! Winner: ${result.winner} in ${round + 1} rounds (pool: ${gameState.prizePool}${rakeStr}, ${totalWinningVotes} votes from ${winningAgents.length} agents)`);
         console.log(`Final scores: ${JSON.stringify(gameState.fruitScores)}`);
       }
       break;
@@ -868,8 +1307,31 @@ export function simulateGame(
   for (const agent of agents) {
     agent.cumulativeSpent += agent.totalSpent;
     agent.cumulativeEarned += agent.totalEarned;
+    agent.cumulativeSwitches += agent.switches;
+    agent.cumulativeAbandonedSpent += agent.abandonedSpent(gameState.winner);
   }
 
+  const finalParsed = agents.some(a => a.strategy.onGameEnd) ? parseGameState(gameState) : null;
+  if (finalParsed) {
+    for (const agent of agents) {
+      const didWin = gameState.winner !== null && agent.currentTeam === gameState.winner;
+      agent.strategy.onGameEnd?.(finalParsed, agent.agentState(), didWin);
+    }
+  }
+
+  recorder?.record({
+    type: 'end',
+    winner: gameState.winner,
+    rounds: gameState.round,
+    finalState: gameState,
+    payouts: agents.map(a => ({
+      agent: a.name,
+      spent: a.totalSpent,
+      earned: a.totalEarned,
+      profit: a.totalEarned - a.totalSpent,
+    })),
+  });
+
   return {
     gameState,
     winner: gameState.winner,
@@ -880,34 +1342,137 @@ export function simulateGame(
   };
 }
 
+/** A scheduled tournament game: which config to play and with what seed */
+export interface TournamentGame {
+  configIndex: number;
+  seed: number;
+}
+
+/** Per-agent outcome of one game (agents in tournament order) */
+export interface GameRecordAgent {
+  spent: number;
+  earned: number;
+  /** Finished the game on the winning team */
+  won: boolean;
+  switches: number;
+  abandonedSpent: number;
+}
+
+/** Outcome of one tournament game — plain data, safe to pass between threads */
+export interface GameRecord {
+  configIndex: number;
+  seed: number;
+  winner: string | null;
+  rounds: number;
+  agents: GameRecordAgent[];
+}
+
 /**
- * Run multiple games and collect statistics
+ * Derive every game's seed from the master seed, config by config.
+ * Serial and parallel runs share this plan, which keeps them identical.
  */
-export function runTournament(
+export function planTournament(
+  configs: RodeoCycleConfig[],
+  numGamesPerConfig: number,
+  seed?: number,
+): { seed: number; games: TournamentGame[] } {
+  const { rng: masterRng, seed: masterSeed } = createRNG(seed);
+  const games: TournamentGame[] = [];
+
+  for (let configIndex = 0; configIndex < configs.length; configIndex++) {
+    for (let g = 0; g < numGamesPerConfig; g++) {
+      // Derive per-game seed from master RNG
+      const gameSeed = (masterRng() * 0xffffffff) >>> 0;
+      games.push({ configIndex, seed: gameSeed });
+    }
+  }
+
+  return { seed: masterSeed, games };
+}
+
+/**
+ * Play a list of planned games with the given agents, returning one
+ * record per game. Agents' cumulative stats are updated as games are played.
+ */
+export function playTournamentGames(
   agents: SimAgent[],
   configs: RodeoCycleConfig[],
-  numGamesPerConfig: number = 50,
+  games: TournamentGame[],
   options: SimulateOptions = {},
-): TournamentResults {
+): GameRecord[] {
   const verbose = options.verbose || false;
-  const { rng: masterRng, seed: masterSeed } = createRNG(options.seed);
+  const records: GameRecord[] = [];
+
+  for (const game of games) {
+    const result = simulateGame(agents, configs[game.configIndex], {
+      verbose,
+      maxRounds: 200,
+      seed: game.seed,
+      recorder: options.recorder,
+      clock: options.clock,
+    });
+
+    const record: GameRecord = {
+      configIndex: game.configIndex,
+      seed: game.seed,
+      winner: result.winner,
+      rounds: result.rounds,
+      agents: agents.map(a => ({
+        spent: a.totalSpent,
+        earned: a.totalEarned,
+        won: result.winner !== null && a.currentTeam === result.winner,
+        switches: a.switches,
+        abandonedSpent: a.abandonedSpent(result.winner),
+      })),
+    };
+    records.push(record);
+    options.onGame?.(record);
+  }
+
+  return records;
+}
+
+/**
+ * Apply a game record to agents that did not play it themselves (e.g.
+ * when the game ran in a worker thread), updating their cumulative stats
+ * exactly as simulateGame would have.
+ */
+export function applyGameRecord(agents: SimAgent[], record: GameRecord): void {
+  agents.forEach((agent, i) => {
+    const stats = record.agents[i];
+    agent.gamesPlayed++;
+    if (stats.won) agent.wins++;
+    agent.cumulativeSpent += stats.spent;
+    agent.cumulativeEarned += stats.earned;
+    agent.cumulativeSwitches += stats.switches;
+    agent.cumulativeAbandonedSpent += stats.abandonedSpent;
+  });
+}
 
+/**
+ * Build tournament results from game records (in plan order) and the
+ * agents' cumulative stats.
+ */
+export function summarizeTournament(
+  agents: SimAgent[],
+  configs: RodeoCycleConfig[],
+  records: GameRecord[],
+  seed: number,
+): TournamentResults {
   const results: TournamentResults = {
     totalGames: 0,
     wins: {},
     avgRounds: 0,
     configResults: [],
-    seed: masterSeed,
+    seed,
   };
 
-  // Init win counters for teams
-  for (const team of TEAM_CONFIG) {
+  // Init win counters for the default teams plus any custom ones
+  for (const team of [...TEAM_CONFIG, ...configs.flatMap(c => c.teams || [])]) {
     results.wins[team.id] = 0;
   }
 
-  let totalRounds = 0;
-
-  for (const config of configs) {
+  const configResults: ConfigResult[] = configs.map(config => {
     const configResult: ConfigResult = {
       config: config.name || 'unknown',
       games: 0,
@@ -915,34 +1480,34 @@ export function runTournament(
       avgRounds: 0,
       noWinner: 0,
     };
-
-    for (const team of TEAM_CONFIG.slice(0, config.numberOfTeams)) {
+    for (const team of teamsForConfig(config)) {
       configResult.wins[team.id] = 0;
     }
+    return configResult;
+  });
+  const configRounds: number[] = configs.map(() => 0);
 
-    let configRounds = 0;
+  let totalRounds = 0;
 
-    for (let g = 0; g < numGamesPerConfig; g++) {
-      // Derive per-game seed from master RNG
-      const gameSeed = (masterRng() * 0xffffffff) >>> 0;
-      const result = simulateGame(agents, config, { verbose, maxRounds: 200, seed: gameSeed });
-      results.totalGames++;
-      configResult.games++;
-      totalRounds += result.rounds;
-      configRounds += result.rounds;
-
-      if (result.winner) {
-        results.wins[result.winner] = (results.wins[result.winner] || 0) + 1;
-        configResult.wins[result.winner] = (configResult.wins[result.winner] || 0) + 1;
-      } else {
-        configResult.noWinner++;
-      }
+  for (const record of records) {
+    const configResult = configResults[record.configIndex];
+    results.totalGames++;
+    configResult.games++;
+    totalRounds += record.rounds;
+    configRounds[record.configIndex] += record.rounds;
+
+    if (record.winner) {
+      results.wins[record.winner] = (results.wins[record.winner] || 0) + 1;
+      configResult.wins[record.winner] = (configResult.wins[record.winner] || 0) + 1;
+    } else {
+      configResult.noWinner++;
     }
-
-    configResult.avgRounds = configRounds / configResult.games;
-    results.configResults.push(configResult);
   }
 
+  configResults.forEach((configResult, i) => {
+    configResult.avgRounds = configRounds[i] / configResult.games;
+  });
+  results.configResults = configResults;
   results.avgRounds = totalRounds / results.totalGames;
 
   // Agent stats (use cumulative values that persist across game resets)
@@ -958,11 +1523,27 @@ export function runTournament(
     roi: a.cumulativeSpent > 0
       ? ((a.cumulativeEarned - a.cumulativeSpent) / a.cumulativeSpent * 100).toFixed(1) + '%'
       : '0.0%',
+    switches: a.cumulativeSwitches,
+    abandonedSpent: Math.round(a.cumulativeAbandonedSpent),
   }));
 
   return results;
 }
 
+/**
+ * Run multiple games and collect statistics
+ */
+export function runTournament(
+  agents: SimAgent[],
+  configs: RodeoCycleConfig[],
+  numGamesPerConfig: number = 50,
+  options: SimulateOptions = {},
+): TournamentResults {
+  const { seed, games } = planTournament(configs, numGamesPerConfig, options.seed);
+  const records = playTournamentGames(agents, configs, games, options);
+  return summarizeTournament(agents, configs, records, seed);
+}
+
 /**
  * Pretty-print game state for debugging
  */
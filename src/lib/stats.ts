@@ -0,0 +1,228 @@
+/**
+ * Statistics for tournament results: per-game samples, bootstrap
+ * confidence intervals and a paired permutation test.
+ *
+ * The sampling unit is the game. Agents at the same table aren't
+ * independent, so intervals resample whole games (every strategy's
+ * spend, earnings and wins in that game together), and head-to-head
+ * comparisons pair the two strategies' results game by game.
+ */
+
+import { createRNG } from './simulator.js';
+import type { GameRecord, RNG } from './simulator.js';
+
+/** One strategy's totals in a single game (summed over its seats) */
+export interface GameSample {
+  seats: number;
+  wins: number;
+  spent: number;
+  earned: number;
+}
+
+export type Interval = [number, number];
+
+export interface StatsOptions {
+  /** Bootstrap / permutation resamples (default: 2000) */
+  iterations?: number;
+  /** Confidence level for intervals (default: 0.95) */
+  confidence?: number;
+  /** Seed for resampling, so reports are reproducible */
+  seed?: number;
+}
+
+export interface StrategyStats {
+  label: string;
+  games: number;
+  winRate: number;
+  winRateCI: Interval;
+  roi: number;
+  roiCI: Interval;
+  /** Mean profit per seat per game */
+  profitPerGame: number;
+  profitPerGameCI: Interval;
+}
+
+export interface HeadToHeadStats {
+  a: string;
+  b: string;
+  games: number;
+  /** Mean per-game difference in profit per seat (a − b) */
+  profitDiff: number;
+  profitDiffCI: Interval;
+  /** Two-sided p-value for the profit difference */
+  profitP: number;
+  /** Mean per-game difference in win rate per seat (a − b) */
+  winDiff: number;
+  winDiffCI: Interval;
+  winP: number;
+}
+
+/**
+ * Group each game's agents by label. `labels[i]` is the label of agent i
+ * in every record; the result maps label → one sample per game.
+ */
+export function gameSamples(records: GameRecord[], labels: string[]): Map<string, GameSample[]> {
+  const samples = new Map<string, GameSample[]>();
+  for (const label of new Set(labels)) samples.set(label, []);
+
+  for (const record of records) {
+    const perLabel = new Map<string, GameSample>();
+    record.agents.forEach((agent, i) => {
+      const s = perLabel.get(labels[i]) ?? { seats: 0, wins: 0, spent: 0, earned: 0 };
+      s.seats++;
+      if (agent.won) s.wins++;
+      s.spent += agent.spent;
+      s.earned += agent.earned;
+      perLabel.set(labels[i], s);
+    });
+    for (const [label, s] of perLabel) samples.get(label)!.push(s);
+  }
+
+  return samples;
+}
+
+/**
+ * Per-game profit per seat for each label.
+ */
+export function profitSamples(records: GameRecord[], labels: string[]): Map<string, number[]> {
+  const result = new Map<string, number[]>();
+  for (const [label, samples] of gameSamples(records, labels)) {
+    result.set(label, samples.map(s => (s.earned - s.spent) / s.seats));
+  }
+  return result;
+}
+
+/**
+ * Percentile bootstrap interval for a statistic over resampled indices.
+ * `statistic` receives the resampled indices into the original data.
+ */
+export function bootstrapCI(
+  n: number,
+  statistic: (indices: number[]) => number,
+  rng: RNG,
+  iterations: number = 2000,
+  confidence: number = 0.95,
+): Interval {
+  if (n === 0) return [0, 0];
+  const estimates: number[] = [];
+  const indices = new Array<number>(n);
+  for (let it = 0; it < iterations; it++) {
+    for (let i = 0; i < n; i++) indices[i] = Math.floor(rng() * n);
+    estimates.push(statistic(indices));
+  }
+  estimates.sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return [quantile(estimates, tail), quantile(estimates, 1 - tail)];
+}
+
+/**
+ * Paired sign-flip permutation test: under the null hypothesis each
+ * per-game difference is equally likely to have either sign.
+ * Returns the two-sided p-value for the mean difference.
+ */
+export function pairedPermutationTest(diffs: number[], rng: RNG, iterations: number = 2000): number {
+  if (diffs.length === 0) return 1;
+  const observed = Math.abs(mean(diffs));
+  let extreme = 0;
+  for (let it = 0; it < iterations; it++) {
+    let sum = 0;
+    for (const d of diffs) sum += rng() < 0.5 ? d : -d;
+    if (Math.abs(sum / diffs.length) >= observed - 1e-12) extreme++;
+  }
+  // +1 smoothing: the observed labelling is one of the permutations
+  return (extreme + 1) / (iterations + 1);
+}
+
+/**
+ * Win rate, ROI and profit-per-game with bootstrap intervals for each label.
+ */
+export function computeStrategyStats(
+  records: GameRecord[],
+  labels: string[],
+  options: StatsOptions = {},
+): StrategyStats[] {
+  const { rng } = createRNG(options.seed);
+  const iterations = options.iterations ?? 2000;
+  const confidence = options.confidence ?? 0.95;
+
+  return [...gameSamples(records, labels)].map(([label, samples]) => {
+    const winRate = (idx: number[]): number => ratio(idx, i => samples[i].wins, i => samples[i].seats);
+    const roi = (idx: number[]): number => ratio(idx, i => samples[i].earned - samples[i].spent, i => samples[i].spent);
+    const profit = (idx: number[]): number => ratio(idx, i => samples[i].earned - samples[i].spent, i => samples[i].seats);
+    const all = samples.map((_, i) => i);
+
+    return {
+      label,
+      games: samples.length,
+      winRate: winRate(all),
+      winRateCI: bootstrapCI(samples.length, winRate, rng, iterations, confidence),
+      roi: roi(all),
+      roiCI: bootstrapCI(samples.length, roi, rng, iterations, confidence),
+      profitPerGame: profit(all),
+      profitPerGameCI: bootstrapCI(samples.length, profit, rng, iterations, confidence),
+    };
+  });
+}
+
+/**
+ * Paired comparison of two labels over the games both played.
+ */
+export function computeHeadToHead(
+  records: GameRecord[],
+  labels: string[],
+  a: string,
+  b: string,
+  options: StatsOptions = {},
+): HeadToHeadStats {
+  const { rng } = createRNG(options.seed);
+  const iterations = options.iterations ?? 2000;
+  const confidence = options.confidence ?? 0.95;
+
+  const profitDiffs: number[] = [];
+  const winDiffs: number[] = [];
+  for (const record of records) {
+    const [sa, sb] = [a, b].map(label => gameSamples([record], labels).get(label)![0]);
+    if (!sa || !sb) continue;
+    profitDiffs.push((sa.earned - sa.spent) / sa.seats - (sb.earned - sb.spent) / sb.seats);
+    winDiffs.push(sa.wins / sa.seats - sb.wins / sb.seats);
+  }
+
+  const meanOf = (diffs: number[]) => (idx: number[]): number => idx.reduce((s, i) => s + diffs[i], 0) / idx.length;
+
+  return {
+    a,
+    b,
+    games: profitDiffs.length,
+    profitDiff: mean(profitDiffs),
+    profitDiffCI: bootstrapCI(profitDiffs.length, meanOf(profitDiffs), rng, iterations, confidence),
+    profitP: pairedPermutationTest(profitDiffs, rng, iterations),
+    winDiff: mean(winDiffs),
+    winDiffCI: bootstrapCI(winDiffs.length, meanOf(winDiffs), rng, iterations, confidence),
+    winP: pairedPermutationTest(winDiffs, rng, iterations),
+  };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+/** Ratio of sums over the given indices (0 when the denominator is 0) */
+function ratio(indices: number[], num: (i: number) => number, den: (i: number) => number): number {
+  let n = 0;
+  let d = 0;
+  for (const i of indices) {
+    n += num(i);
+    d += den(i);
+  }
+  return d > 0 ? n / d : 0;
+}
+
+/** Linear-interpolated quantile of sorted values */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
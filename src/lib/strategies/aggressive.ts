@@ -31,23 +31,29 @@ export class AggressiveStrategy extends BaseStrategy {
       return null;
     }
 
-    const teamsWithFruits = parsed.teams.filter((t) => t.closestFruit !== null);
+    // routeAware: rank by route length, avoiding routes that eat a rival's
+    // fruit; teams with no reachable fruit are skipped
+    const routes = this.fruitRoutes(parsed);
+    const teamsWithFruits = parsed.teams.filter((t) => t.closestFruit !== null && (!routes || routes.get(t.id)));
     if (teamsWithFruits.length === 0) {
       return { skip: true, reason: 'no_teams_with_fruits' };
     }
 
+    const fruitDistance = (team: ParsedTeam): number =>
+      Math.min((routes ? routes.get(team.id)?.distance : team.closestFruit?.distance) ?? 100, 100);
+
     const sortedTeams = [...teamsWithFruits].sort((a, b) => {
       if (b.score !== a.score) return b.score - a.score;
-      const aDist = a.closestFruit?.distance ?? 100;
-      const bDist = b.closestFruit?.distance ?? 100;
-      return aDist - bDist;
+      return fruitDistance(a) - fruitDistance(b);
     });
 
     const targetTeam = sortedTeams[0];
     if (!targetTeam) return null;
 
-    const targetFruit = targetTeam.closestFruit?.fruit || null;
-    const bestDir = this.findBestDirection(parsed, targetFruit);
+    // Follow the route itself; the greedy scorer could walk over a rival's fruit
+    const route = routes?.get(targetTeam.id);
+    const bestDir = this.routeDirection(parsed, route)
+      ?? this.findBestDirection(parsed, route?.fruit || targetTeam.closestFruit?.fruit || null);
     if (!bestDir) return null;
 
     return {
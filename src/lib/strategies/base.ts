@@ -6,17 +6,27 @@
  *
  * Strategies can optionally override:
  * - shouldPlay(parsed, balance, state) -> boolean
- * - shouldCounterBid(parsed, balance, state, ourVote) -> VoteAction | VoteSkip | null
+ * - shouldCounterBid(parsed, balance, state, ourVote, override) -> VoteAction | VoteSkip | null
  * - onGameStart(parsed, state) -> void
  * - onGameEnd(parsed, state, didWin) -> void
  * - onRoundEnd(parsed, state) -> void
+ * - voteTiming(parsed) -> VoteTiming | undefined
+ *
+ * The lifecycle hooks are called by both the simulator and the live
+ * runner. Anything a strategy learns across games belongs in `this.memory`,
+ * which the live runner saves between runs.
+ *
+ * Stochastic strategies must draw randomness from `this.rng` rather than
+ * Math.random, so seeded runs are reproducible.
  */
 
-import type { Direction, HexPos, ParsedGameState, ParsedTeam } from '../game-state.js';
+import type { Direction, FruitRoute, HexPos, ParsedGameState, ParsedTeam } from '../game-state.js';
+import type { RNG } from '../simulator.js';
 import {
   ALL_DIRECTION_OFFSETS,
   ALL_OPPOSITES,
   countExits,
+  analyzeFruitAccessibility,
 } from '../game-state.js';
 
 /** Agent state passed to strategies each round */
@@ -31,12 +41,28 @@ export interface AgentState {
   roundBudgetRemaining?: number;
 }
 
+/**
+ * When to submit a vote within the round. Times are seconds since the
+ * round started; `snipe` counts down from the end instead. A held vote is
+ * re-decided when its time comes, since the round may have changed.
+ */
+export interface VoteTiming {
+  /** Don't submit before this many seconds into the round */
+  earliest?: number;
+  /** Submit no later than this many seconds into the round */
+  latest?: number;
+  /** Submit when this many seconds are left ("T-minus N"; N <= 5 triggers an extension) */
+  snipe?: number;
+}
+
 /** A concrete vote: direction + team + amount */
 export interface VoteAction {
   direction: Direction;
   team: ParsedTeam;
   amount: number;
   reason: string;
+  /** When to submit (default: immediately) */
+  timing?: VoteTiming;
 }
 
 /** Explicit skip with reason */
@@ -48,15 +74,65 @@ export interface VoteSkip {
 /** Result type for computeVote and shouldCounterBid */
 export type VoteResult = VoteAction | VoteSkip | null;
 
+/**
+ * How a later vote overrode ours: a different direction, the same
+ * direction credited to a different team (the team that scores any fruit
+ * eaten this move), or both.
+ */
+export type OverrideKind = 'direction' | 'team' | 'both';
+
+/**
+ * Compare our vote with the pending move; null = not overridden.
+ */
+export function overrideKind(
+  ourVote: VoteAction,
+  direction: Direction | null | undefined,
+  team: string | null | undefined,
+): OverrideKind | null {
+  const otherDirection = direction !== ourVote.direction;
+  const otherTeam = team !== ourVote.team.id;
+  if (otherDirection && otherTeam) return 'both';
+  if (otherDirection) return 'direction';
+  if (otherTeam) return 'team';
+  return null;
+}
+
+/**
+ * Seconds to hold a vote with the given timing, `elapsed` seconds into a
+ * round with `countdown` seconds left. 0 = submit now.
+ */
+export function voteDelay(timing: VoteTiming | undefined, elapsed: number, countdown: number): number {
+  if (!timing) return 0;
+  let at = timing.snipe !== undefined ? elapsed + countdown - timing.snipe : elapsed;
+  if (timing.earliest !== undefined) at = Math.max(at, timing.earliest);
+  if (timing.latest !== undefined) at = Math.min(at, timing.latest);
+  return Math.max(0, at - elapsed);
+}
+
 export class BaseStrategy {
   name: string;
   description: string;
   options: Record<string, unknown>;
+  /** Random source in [0, 1). Defaults to Math.random; pass `rng` in options or call setRNG() to seed. */
+  rng: RNG;
+  /**
+   * State that persists across games (e.g. how crowded each team gets).
+   * Must be plain JSON: the live runner saves it to its state dir.
+   */
+  memory: Record<string, unknown> = {};
 
   constructor(name: string, description: string, options: Record<string, unknown> = {}) {
     this.name = name;
     this.description = description;
     this.options = options;
+    this.rng = typeof options.rng === 'function' ? options.rng as RNG : Math.random;
+  }
+
+  /**
+   * Replace the random source (e.g. with a seeded RNG from createRNG)
+   */
+  setRNG(rng: RNG): void {
+    this.rng = rng;
   }
 
   /**
@@ -78,40 +154,59 @@ export class BaseStrategy {
   }
 
   /**
-   * Decide whether to counter-bid when our direction has been overridden.
+   * Decide whether to counter-bid when our vote has been overridden.
    *
-   * Called mid-round when the snake's currentDirection changed away from
-   * what we voted for. Key mechanics:
+   * Called mid-round when the snake's currentDirection or
+   * currentWinningTeam changed away from what we voted for; `override`
+   * says which. Key mechanics:
    * - Last vote wins (not highest amount)
    * - Voting in extension window (<5s left): timer += 5s, minBid *= 2
    * - Payout is per vote count, not cumulative amount
    * - All-pay: everyone pays regardless of outcome
    */
-  shouldCounterBid(parsed: ParsedGameState, balance: number, state: AgentState, ourVote: VoteAction): VoteResult {
+  shouldCounterBid(
+    parsed: ParsedGameState,
+    balance: number,
+    state: AgentState,
+    ourVote: VoteAction,
+    override: OverrideKind,
+  ): VoteResult {
     return null;
   }
 
   /**
-   * Called when a new game starts
+   * Called when a new game starts, with its first state
    */
   onGameStart(parsed: ParsedGameState, state: AgentState): void {
     // Override in subclass if needed
   }
 
   /**
-   * Called when a game ends
+   * Called when a game ends, with the final state. didWin = finished on the winning team.
    */
   onGameEnd(parsed: ParsedGameState, state: AgentState, didWin: boolean): void {
     // Override in subclass if needed
   }
 
   /**
-   * Called after each round
+   * Called after each round, with the state after the move
    */
   onRoundEnd(parsed: ParsedGameState, state: AgentState): void {
     // Override in subclass if needed
   }
 
+  /**
+   * Default timing for votes that don't set their own. Reads the `snipe`,
+   * `earliest` and `latest` options (e.g. `ev:snipe=2`); none = vote at once.
+   */
+  voteTiming(parsed: ParsedGameState): VoteTiming | undefined {
+    const timing: VoteTiming = {};
+    for (const key of ['snipe', 'earliest', 'latest'] as const) {
+      if (this.options[key] !== undefined) timing[key] = Number(this.options[key]);
+    }
+    return Object.keys(timing).length > 0 ? timing : undefined;
+  }
+
   /**
    * Get option value with default fallback
    */
@@ -132,6 +227,39 @@ export class BaseStrategy {
     return countExits(newPos, parsed.raw, ALL_OPPOSITES[dir]);
   }
 
+  /**
+   * Team whose fruit is in the cell one step in `dir` (null = no fruit)
+   */
+  fruitInDirection(dir: Direction, parsed: ParsedGameState): string | null {
+    const offset = ALL_DIRECTION_OFFSETS[dir];
+    const q = parsed.head.q + offset.q;
+    const r = parsed.head.r + offset.r;
+    for (const [teamId, fruits] of Object.entries(parsed.raw.apples || {})) {
+      if (fruits.some(f => f.q === q && f.r === r)) return teamId;
+    }
+    return null;
+  }
+
+  /**
+   * Each team's target route when the `routeAware` option is on (null
+   * otherwise): the closest fruit reachable without eating another team's
+   * fruit, else the closest reachable one. Teams with no reachable fruit
+   * map to null.
+   */
+  fruitRoutes(parsed: ParsedGameState): Map<string, FruitRoute | null> | null {
+    if (!this.getOption('routeAware', false)) return null;
+    return new Map(analyzeFruitAccessibility(parsed.raw).map(a => [a.team, a.clean ?? a.closest]));
+  }
+
+  /**
+   * First move of a fruit route, if it's still a valid direction (null
+   * when there is no route to follow)
+   */
+  routeDirection(parsed: ParsedGameState, route: FruitRoute | null | undefined): Direction | null {
+    const dir = route?.firstDir;
+    return dir && parsed.validDirections.includes(dir) ? dir : null;
+  }
+
   /**
    * Find the safest valid direction
    */
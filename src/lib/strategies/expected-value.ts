@@ -26,7 +26,7 @@
  */
 
 import { BaseStrategy } from './base.js';
-import type { VoteResult, AgentState, VoteAction } from './base.js';
+import type { VoteResult, AgentState, VoteAction, OverrideKind } from './base.js';
 import type { Direction, HexPos, ParsedGameState, ParsedTeam } from '../game-state.js';
 import {
   ALL_DIRECTION_OFFSETS,
@@ -35,7 +35,12 @@ import {
   getTotalCells,
   countExits,
   bfsDistance,
-  floodFillSize,
+  timeAwareFloodFill,
+  bestPathToTarget,
+  enumerateSafePaths,
+  estimateRoundsToWin,
+  MAX_LOOKAHEAD_DEPTH,
+  snakeGrows,
 } from '../game-state.js';
 
 /** Per-team stats computed during analysis */
@@ -58,6 +63,9 @@ interface TeamAnalysis {
 }
 
 export class ExpectedValueStrategy extends BaseStrategy {
+  /** Rounds-to-win per team, planned once per state (roundsToWin option) */
+  private roundsToWinCache = new WeakMap<ParsedGameState, Record<string, number>>();
+
   constructor(options: Record<string, unknown> = {}) {
     super(
       'expected-value',
@@ -150,13 +158,22 @@ export class ExpectedValueStrategy extends BaseStrategy {
    *   dist ≤ 1, 3x return → 23.4% ROI  ← best
    *   no counter-bidding  → ~25% ROI but loses clutch fruit grabs
    */
-  shouldCounterBid(parsed: ParsedGameState, balance: number, state: AgentState, ourVote: VoteAction): VoteResult {
+  shouldCounterBid(
+    parsed: ParsedGameState,
+    balance: number,
+    state: AgentState,
+    ourVote: VoteAction,
+    override: OverrideKind,
+  ): VoteResult {
     const cost = parsed.minBid;
 
     // Hard budget limits
     if (cost > balance) return null;
     if ((state.roundBudgetRemaining || 0) < cost) return null;
 
+    // Same move credited to another team: only costs us if the move eats a fruit
+    if (override === 'team' && !this.fruitInDirection(ourVote.direction, parsed)) return null;
+
     // Only counter-bid when fruit is immediately reachable (distance 1)
     // AND the expected return strongly justifies the escalated cost.
     const team = ourVote.team;
@@ -193,25 +210,36 @@ export class ExpectedValueStrategy extends BaseStrategy {
     return 0.1;
   }
 
+  /**
+   * BFS-closest fruit across ALL team fruits (not just hex-closest).
+   * Uses time-aware BFS (tail segments clear as snake moves).
+   */
+  bfsClosestFruit(team: ParsedTeam, parsed: ParsedGameState): { bfsDist: number; bfsClosestFruit: HexPos | null } {
+    let bfsDist = team.closestFruit?.distance ?? Infinity;
+    let bfsClosestFruit: HexPos | null = team.closestFruit?.fruit ?? null;
+    const teamFruits = parsed.raw?.apples?.[team.id] || [];
+    for (const fruit of teamFruits) {
+      const bfs = bfsDistance(parsed.head, fruit, parsed.raw, true, true);
+      if (bfs.distance < bfsDist) {
+        bfsDist = bfs.distance;
+        bfsClosestFruit = fruit;
+      }
+    }
+    return { bfsDist, bfsClosestFruit };
+  }
+
   analyzeTeams(parsed: ParsedGameState, currentTeamId: string | null): TeamAnalysis {
+    // routeAware: target the closest fruit whose route doesn't eat a rival's
+    const routes = this.fruitRoutes(parsed);
     const teamStats: TeamStat[] = parsed.teams
       .filter((team) => team.closestFruit !== null)
       .map((team) => {
         const isCurrentTeam = team.id === currentTeamId;
 
-        // Find BFS-closest fruit across ALL team fruits (not just hex-closest).
-        // Uses time-aware BFS (tail segments clear as snake moves).
-        let bfsDist = team.closestFruit?.distance ?? Infinity;
-        let bfsClosestFruit: HexPos | null = team.closestFruit?.fruit ?? null;
-        const teamFruits = parsed.raw?.apples?.[team.id] || [];
-        for (const fruit of teamFruits) {
-          const bfs = bfsDistance(parsed.head, fruit, parsed.raw, true, true);
-          if (bfs.distance < bfsDist) {
-            bfsDist = bfs.distance;
-            bfsClosestFruit = fruit;
-          }
-        }
-
+        const route = routes?.get(team.id);
+        const { bfsDist, bfsClosestFruit } = routes
+          ? { bfsDist: route?.distance ?? Infinity, bfsClosestFruit: route?.fruit ?? null }
+          : this.bfsClosestFruit(team, parsed);
         const ev = this.calculateExpectedValue(team, parsed, isCurrentTeam, bfsDist);
         return { team, ev, isCurrentTeam, bfsDist, bfsClosestFruit };
       });
@@ -296,7 +324,7 @@ export class ExpectedValueStrategy extends BaseStrategy {
             // Higher EV = more likely to be picked, but not guaranteed.
             // This means two identical agents will sometimes split teams.
             const totalEV = viable.reduce((sum, t) => sum + t.ev, 0);
-            const roll = Math.random() * totalEV;
+            const roll = this.rng() * totalEV;
             let cumulative = 0;
             pick = viable[viable.length - 1];
             for (const t of viable) {
@@ -347,22 +375,81 @@ export class ExpectedValueStrategy extends BaseStrategy {
    *
    *   The agent should defect when the solo payout on a rival team
    *   outweighs the diluted payout on the consensus team.
+   *
+   * This assumes the server's 'all-pay-auction' payout (split by vote
+   * count). Run the simulator with --payout to see how it fares under
+   * the other models in payouts.ts.
    */
   calculateExpectedValue(team: ParsedTeam, parsed: ParsedGameState, isCurrentTeam: boolean = false, bfsDist: number | null = null): number {
+    const winProb = this.expectedValueWinProb(team, parsed, isCurrentTeam, bfsDist);
+    if (winProb === 0) return 0;
+
+    // --- Payout dilution (unique voters, not cumulative votes) ---
+    // pool / minBid over-counts because the same agents vote every round.
+    // A pool of 10 with minBid=1 after 5 rounds could be 2 agents × 5,
+    // not 10 separate voters. Estimate unique voters by dividing by the
+    // number of rounds played (each voter contributes ~1 vote per round).
+    const teamPool = team.pool || 0;
+    const minBid = parsed.initialMinBid || 1;
+    const round = parsed.round ?? 0;
+    const votesPerVoter = Math.max(round, 1);
+    const estimatedVoters = Math.max(teamPool / (minBid * votesPerVoter), 1);
+
+    // If joining a new team, add ourselves to the voter count
+    const totalVoters = estimatedVoters + (isCurrentTeam ? 0 : 1);
+    const ourShare = 1 / totalVoters;
+
+    const prizePool = parsed.prizePool;
+    const payoutIfWin = prizePool * ourShare;
+
+    return winProb * payoutIfWin;
+  }
+
+  /**
+   * Base win probability from game position alone (fruits still needed
+   * and BFS distance to the closest one). Hand-tuned; see calibrate.ts.
+   */
+  baseWinProb(fruitsNeeded: number, dist: number): number {
+    if (fruitsNeeded === 1 && dist <= 1) return 0.9;
+    if (fruitsNeeded === 1 && dist <= 3) return 0.6;
+    if (fruitsNeeded === 1) return 0.3;
+    if (fruitsNeeded === 2 && dist <= 2) return 0.35;
+    if (fruitsNeeded === 2) return 0.2;
+    return 0.1;
+  }
+
+  /**
+   * Base win probability with the `roundsToWin` option: the team's share
+   * of the race to fruitsToWin, from every team's planned rounds-to-win
+   * (a tour through its fruit, not the distance to one). A team's weight
+   * halves for every `raceScale` rounds (default: 3) it needs.
+   */
+  raceWinProb(team: ParsedTeam, parsed: ParsedGameState): number {
+    let rounds = this.roundsToWinCache.get(parsed);
+    if (!rounds) {
+      rounds = estimateRoundsToWin(parsed.raw);
+      this.roundsToWinCache.set(parsed, rounds);
+    }
+    const scale = Number(this.getOption('raceScale', 3));
+    const weight = (r: number): number => (r === Infinity ? 0 : Math.pow(0.5, r / scale));
+    const total = Object.values(rounds).reduce((sum, r) => sum + weight(r), 0);
+    return total > 0 ? weight(rounds[team.id] ?? Infinity) / total : 0;
+  }
+
+  /**
+   * The win probability calculateExpectedValue uses: baseWinProb, nudged
+   * by how much of the voting (direction control) the team has.
+   */
+  expectedValueWinProb(team: ParsedTeam, parsed: ParsedGameState, isCurrentTeam: boolean = false, bfsDist: number | null = null): number {
     const fruitsNeeded = parsed.fruitsToWin - team.score;
     const dist = bfsDist ?? team.closestFruit?.distance ?? 10;
 
     if (!team.closestFruit || fruitsNeeded <= 0) return 0;
     if (dist === Infinity) return 0;
 
-    // --- Base win probability from game position ---
-    let baseWinProb: number;
-    if (fruitsNeeded === 1 && dist <= 1) baseWinProb = 0.9;
-    else if (fruitsNeeded === 1 && dist <= 3) baseWinProb = 0.6;
-    else if (fruitsNeeded === 1) baseWinProb = 0.3;
-    else if (fruitsNeeded === 2 && dist <= 2) baseWinProb = 0.35;
-    else if (fruitsNeeded === 2) baseWinProb = 0.2;
-    else baseWinProb = 0.1;
+    const baseWinProb = this.getOption('roundsToWin', false)
+      ? this.raceWinProb(team, parsed)
+      : this.baseWinProb(fruitsNeeded, dist);
 
     // --- Direction control factor (mild) ---
     // In last-vote-wins, more voters on a team = more chances to cast
@@ -391,33 +478,18 @@ export class ExpectedValueStrategy extends BaseStrategy {
     // A solo defector with close fruit keeps ~70% of base winProb.
     // A dominant team gets up to 100%. Not a dealbreaker, just a nudge.
     const controlBoost = Math.min(controlShare * parsed.teams.length, 1);
-    const winProb = baseWinProb * (0.7 + 0.3 * controlBoost);
-
-    // --- Payout dilution (unique voters, not cumulative votes) ---
-    // pool / minBid over-counts because the same agents vote every round.
-    // A pool of 10 with minBid=1 after 5 rounds could be 2 agents × 5,
-    // not 10 separate voters. Estimate unique voters by dividing by the
-    // number of rounds played (each voter contributes ~1 vote per round).
-    const round = parsed.round ?? 0;
-    const votesPerVoter = Math.max(round, 1);
-    const estimatedVoters = Math.max(teamPool / (minBid * votesPerVoter), 1);
-
-    // If joining a new team, add ourselves to the voter count
-    const totalVoters = estimatedVoters + (isCurrentTeam ? 0 : 1);
-    const ourShare = 1 / totalVoters;
-
-    const prizePool = parsed.prizePool;
-    const payoutIfWin = prizePool * ourShare;
-
-    return winProb * payoutIfWin;
+    return baseWinProb * (0.7 + 0.3 * controlBoost);
   }
 
   /**
    * Score a direction considering:
    * 1. BFS path distance to target fruit (not just hex distance)
-   * 2. Flood-fill reachable area (dead-end avoidance)
+   * 2. Time-aware flood-fill reachable area (dead-end avoidance)
    * 3. Avoiding wrong-team fruit collisions
    * 4. Safety (exit count from new position)
+   * 5. With the `lookahead` option (moves, e.g. ev:lookahead=3, at most
+   *    MAX_LOOKAHEAD_DEPTH): whether any safe line of play from dir
+   *    survives that many moves
    */
   scoreDirection(dir: Direction, parsed: ParsedGameState, targetTeam: ParsedTeam, explicitTargetFruit: HexPos | null = null): number {
     const offset = ALL_DIRECTION_OFFSETS[dir];
@@ -486,8 +558,11 @@ export class ExpectedValueStrategy extends BaseStrategy {
     }
 
     // === Safety: flood-fill reachable area ===
-    // Larger reachable area = less risk of getting trapped
-    const reachable = floodFillSize(newPos, parsed.raw, ALL_OPPOSITES[dir]);
+    // Larger reachable area = less risk of getting trapped. Time-aware:
+    // cells behind the tail count once it has moved out of the way, so
+    // following our own tail isn't mistaken for a dead end.
+    const grows = snakeGrows(parsed.raw) && this.fruitInDirection(dir, parsed) !== null;
+    const reachable = timeAwareFloodFill(newPos, parsed.raw, grows);
     const totalCells = getTotalCells(parsed.gridRadius, parsed.gridType);
 
     if (reachable <= 2) {
@@ -501,6 +576,18 @@ export class ExpectedValueStrategy extends BaseStrategy {
       score += (reachable / totalCells) * 100;
     }
 
+    // === Lookahead: pockets only a few moves deep ===
+    // Flood fill counts cells, not whether a line of moves through them
+    // exists; with `lookahead` set, play out every safe sequence of that
+    // many moves starting with dir and penalise dir if all get stuck.
+    const lookahead = Math.min(Number(this.getOption('lookahead', 0)), MAX_LOOKAHEAD_DEPTH);
+    if (lookahead > 1) {
+      const trapped = targetFruit
+        ? (bestPathToTarget(parsed.raw, targetFruit, { depth: lookahead, first: dir })?.exits ?? 0) === 0
+        : enumerateSafePaths(parsed.raw, { depth: lookahead, first: dir }).every(p => p.exits === 0);
+      if (trapped) score -= 3000;
+    }
+
     // === Exit count bonus (immediate safety) ===
     const exits = countExits(newPos, parsed.raw, ALL_OPPOSITES[dir]);
     score += exits * 10;
@@ -9,6 +9,7 @@ import { AggressiveStrategy } from './aggressive.js';
 import { UnderdogStrategy } from './underdog.js';
 import { ConservativeStrategy } from './conservative.js';
 import { RandomStrategy } from './random.js';
+import { MctsStrategy } from './mcts.js';
 import { BaseStrategy } from './base.js';
 
 type StrategyConstructor = new (options?: Record<string, unknown>) => BaseStrategy;
@@ -20,6 +21,7 @@ const STRATEGIES: Record<string, StrategyConstructor> = {
   'underdog': UnderdogStrategy,
   'conservative': ConservativeStrategy,
   'random': RandomStrategy,
+  'mcts': MctsStrategy,
 };
 
 // Aliases for convenience
@@ -0,0 +1,275 @@
+/**
+ * MCTS Strategy
+ *
+ * Searches several moves ahead instead of scoring one step, so it can
+ * see multi-move fruit races the greedy strategies miss.
+ * - Root actions: every valid direction × every team with fruit
+ * - Forward model: advanceRound, one simulated round per tree level
+ * - Each simulated round our vote decides the move with probability
+ *   `control`; otherwise the opponent policy's move goes through
+ * - Past `depth` rounds a rollout plays the game out: we steer toward
+ *   our team's fruit, opponents follow the policy
+ * - We only vote while our balance covers minBid; after that the policy
+ *   moves the snake every round
+ * - Score: our estimated payout if our team wins, minus the balls we
+ *   spend voting in the tree rounds (rollout rounds are free: they only
+ *   estimate how the game ends)
+ * - UCT selection, open loop: a node is a sequence of our moves and is
+ *   re-simulated every iteration, since opponents are random
+ *
+ * Options:
+ * - iterations: search iterations per vote (default: 300)
+ * - timeLimitMs: stop searching after this many ms (at least one iteration runs)
+ * - depth: rounds searched as a tree before the rollout (default: 6)
+ * - maxRounds: rounds simulated per iteration before calling it a draw (default: 40)
+ * - opponentPolicy: rollout policy name for other voters (default: pool-weighted)
+ * - exploration: UCT exploration constant (default: 1.4)
+ * - control: chance our vote is the one that counts each round (default: 0.5)
+ *
+ * Searches draw from `this.rng`, so seeded runs are reproducible as long
+ * as timeLimitMs isn't set.
+ */
+
+import { BaseStrategy } from './base.js';
+import type { VoteResult, AgentState, VoteAction, OverrideKind } from './base.js';
+import type { Direction, ParsedGameState, ParsedTeam } from '../game-state.js';
+import { getValidDirections } from '../game-state.js';
+import { getRolloutPolicy, playMove, steerToward, toSimGameState } from '../rollout.js';
+import type { RolloutPolicy } from '../rollout.js';
+import type { SimGameState } from '../simulator.js';
+
+/** A sequence of our moves (open loop); children by our next direction */
+interface SearchNode {
+  visits: number;
+  /** Sum of rewards, in balls */
+  total: number;
+  children: Map<Direction, SearchNode>;
+}
+
+interface RootAction extends SearchNode {
+  direction: Direction;
+  team: ParsedTeam;
+}
+
+/** One playout in progress */
+interface Playout {
+  state: SimGameState;
+  team: string;
+  /** Votes our balance still covers */
+  votesLeft: number;
+  spent: number;
+  rounds: number;
+  done: boolean;
+  winner: string | null;
+}
+
+export class MctsStrategy extends BaseStrategy {
+  /** Mean reward of the last vote's action (what a counter-bid defends) */
+  private lastValue = 0;
+
+  constructor(options: Record<string, unknown> = {}) {
+    super(
+      'mcts',
+      'Monte Carlo tree search over snake moves. Plans multi-move fruit races.',
+      options
+    );
+  }
+
+  computeVote(parsed: ParsedGameState, balance: number, state: AgentState): VoteResult {
+    if (!this.shouldPlay(parsed, balance, state)) {
+      return null;
+    }
+
+    const teamsWithFruits = parsed.teams.filter((t) => t.closestFruit !== null);
+    if (teamsWithFruits.length === 0) {
+      return { skip: true, reason: 'no_teams_with_fruits' };
+    }
+
+    const actions = this.search(parsed, teamsWithFruits, state.currentTeam, balance);
+    const best = actions.reduce((a, b) => (b.visits > a.visits ? b : a));
+    const value = best.visits > 0 ? best.total / best.visits : 0;
+    if (value < 0) {
+      return { skip: true, reason: `mcts_negative_value (${value.toFixed(2)})` };
+    }
+
+    this.lastValue = value;
+    return {
+      direction: best.direction,
+      team: best.team,
+      amount: parsed.minBid,
+      reason: `mcts (visits:${best.visits}, value:${value.toFixed(2)})`,
+    };
+  }
+
+  /**
+   * Counter-bid while the searched value of our vote still covers the
+   * (doubled) minBid. A team-only override matters only when the move
+   * eats a fruit.
+   */
+  shouldCounterBid(
+    parsed: ParsedGameState,
+    balance: number,
+    state: AgentState,
+    ourVote: VoteAction,
+    override: OverrideKind,
+  ): VoteResult {
+    if (override === 'team' && !this.fruitInDirection(ourVote.direction, parsed)) {
+      return null;
+    }
+    if (parsed.minBid > this.lastValue || parsed.minBid > balance) {
+      return null;
+    }
+    if ((state.roundBudgetRemaining || 0) < parsed.minBid) {
+      return null;
+    }
+
+    return {
+      direction: ourVote.direction,
+      team: ourVote.team,
+      amount: parsed.minBid,
+      reason: `counter-mcts (value:${this.lastValue.toFixed(2)}, cost:${parsed.minBid})`,
+    };
+  }
+
+  /**
+   * Run the search; returns the root actions with their statistics.
+   */
+  search(parsed: ParsedGameState, teams: ParsedTeam[], currentTeam: string | null, balance: number): RootAction[] {
+    const iterations = Number(this.getOption('iterations', 300));
+    const timeLimitMs = this.options.timeLimitMs !== undefined ? Number(this.options.timeLimitMs) : undefined;
+    const depth = Number(this.getOption('depth', 6));
+    const maxRounds = Number(this.getOption('maxRounds', 40));
+    const exploration = Number(this.getOption('exploration', 1.4));
+    const control = Number(this.getOption('control', 0.5));
+    const policy = getRolloutPolicy(String(this.getOption('opponentPolicy', 'pool-weighted')));
+
+    const start = toSimGameState(parsed.raw);
+    const minBid = parsed.initialMinBid || 1;
+    const votes = Math.floor(balance / minBid);
+    const actions: RootAction[] = [];
+    for (const direction of parsed.validDirections) {
+      for (const team of teams) {
+        actions.push({ direction, team, visits: 0, total: 0, children: new Map() });
+      }
+    }
+
+    const deadline = timeLimitMs !== undefined ? Date.now() + timeLimitMs : Infinity;
+    // Largest reward magnitude seen, to keep UCT's exploration term in scale
+    let scale = minBid;
+
+    for (let i = 0; i < iterations && (i === 0 || Date.now() < deadline); i++) {
+      const root = this.selectChild(actions, exploration, scale);
+      const action = actions[root];
+      const playout: Playout = { state: start, team: action.team.id, votesLeft: votes, spent: 0, rounds: 0, done: false, winner: null };
+      const path: SearchNode[] = [action];
+
+      // Tree: our move each round, expanding one new node per iteration
+      this.step(playout, action.direction, policy, control, minBid, true);
+      let node: SearchNode = action;
+      let expanded = false;
+      while (!playout.done && path.length < depth && !expanded) {
+        const validDirs = getValidDirections(playout.state);
+        if (validDirs.length === 0) break;
+        const untried = validDirs.filter(d => !node.children.has(d));
+        let direction: Direction;
+        if (untried.length > 0) {
+          direction = untried[Math.floor(this.rng() * untried.length)];
+          node.children.set(direction, { visits: 0, total: 0, children: new Map() });
+          expanded = true;
+        } else {
+          const children = validDirs.map(d => node.children.get(d)!);
+          direction = validDirs[this.selectChild(children, exploration, scale)];
+        }
+        node = node.children.get(direction)!;
+        path.push(node);
+        this.step(playout, direction, policy, control, minBid, true);
+      }
+
+      // Rollout: we keep steering for our team's fruit (estimating the
+      // outcome only: these votes aren't cast, so they cost nothing)
+      while (!playout.done && playout.rounds < maxRounds) {
+        const ours = steerToward(playout.state, playout.team);
+        if (!ours) break;
+        this.step(playout, ours.direction, policy, control, minBid, false);
+      }
+
+      const reward = (playout.winner === playout.team
+        ? this.payoutIfWin(parsed, action.team, currentTeam, playout.spent / minBid)
+        : 0) - playout.spent;
+      scale = Math.max(scale, Math.abs(reward));
+      for (const n of path) {
+        n.visits++;
+        n.total += reward;
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * UCB1 over `nodes` (unvisited first); rewards are normalised by `scale`.
+   */
+  private selectChild(nodes: SearchNode[], exploration: number, scale: number): number {
+    const parentVisits = nodes.reduce((sum, n) => sum + n.visits, 0);
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < nodes.length; i++) {
+      const n = nodes[i];
+      if (n.visits === 0) return i;
+      const score = n.total / n.visits / scale + exploration * Math.sqrt(Math.log(parentVisits) / n.visits);
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * One simulated round: while our balance lasts we vote `direction` for
+   * our team (paying minBid when `pay` is set), and it counts with
+   * probability `control`; otherwise the opponent policy moves.
+   */
+  private step(playout: Playout, direction: Direction, policy: RolloutPolicy, control: number, minBid: number, pay: boolean): void {
+    const voting = playout.votesLeft > 0;
+    if (voting) {
+      playout.votesLeft--;
+      if (pay) playout.spent += minBid;
+    }
+    playout.rounds++;
+    const move = voting && this.rng() < control
+      ? { direction, team: playout.team }
+      : policy(playout.state, this.rng);
+    const result = playMove(playout.state, move, this.rng);
+    if (!result) {
+      playout.done = true;
+      return;
+    }
+    if (result.winner) {
+      playout.done = true;
+      playout.winner = result.winner;
+      return;
+    }
+    playout.state = result.gameState;
+    if (!playout.state.gameActive) playout.done = true;
+  }
+
+  /**
+   * Our share of the pot if `team` wins after `rounds` more voted rounds
+   * (the tree rounds; rollout rounds add nothing, or dragging a win out
+   * would pay): the pot grows by one vote per estimated voter each
+   * round, split by vote
+   * count among the team's voters — those already on it (none for an
+   * empty pool) plus us if we're joining.
+   */
+  private payoutIfWin(parsed: ParsedGameState, team: ParsedTeam, currentTeam: string | null, rounds: number): number {
+    const minBid = parsed.initialMinBid || 1;
+    const votesPerVoter = Math.max(parsed.round ?? 0, 1);
+    const totalPools = parsed.teams.reduce((sum, t) => sum + (t.pool || 0), 0);
+    const voters = Math.max(totalPools / (minBid * votesPerVoter), 1);
+    const existing = (team.pool || 0) / (minBid * votesPerVoter);
+    const teamVoters = Math.max(existing + (team.id === currentTeam ? 0 : 1), 1);
+    const finalPot = parsed.prizePool + rounds * voters * minBid;
+    return finalPot / teamVoters;
+  }
+}
@@ -24,12 +24,12 @@ export class RandomStrategy extends BaseStrategy {
 
     // Pick random direction
     const dirs = parsed.validDirections;
-    const direction = dirs[Math.floor(Math.random() * dirs.length)];
+    const direction = dirs[Math.floor(this.rng() * dirs.length)];
 
     // Pick random team
     const teams = parsed.teams.filter((t) => t.closestFruit);
     const team = teams.length > 0
-      ? teams[Math.floor(Math.random() * teams.length)]
+      ? teams[Math.floor(this.rng() * teams.length)]
       : parsed.teams[0];
 
     return {
@@ -33,12 +33,21 @@ export class UnderdogStrategy extends BaseStrategy {
 
     const maxPoolSize = this.getOption('maxPoolSize', 10);
     const minPayoutMultiplier = this.getOption('minPayoutMultiplier', 2.0);
+    // routeAware: skip teams with no reachable fruit and follow the clean
+    // route (the greedy scorer could walk over a rival's fruit)
+    const routes = this.fruitRoutes(parsed);
+    const directionFor = (team: ParsedTeam): Direction | null => {
+      const route = routes?.get(team.id);
+      return this.routeDirection(parsed, route)
+        ?? this.findBestDirection(parsed, route?.fruit || team.closestFruit?.fruit || null);
+    };
 
     // Find underdog teams with good payout potential
     const candidates = parsed.teams
       .filter((team) => {
         // Must have fruits to score
         if (!team.closestFruit) return false;
+        if (routes && !routes.get(team.id)) return false;
         // Must have small pool
         if (team.pool > maxPoolSize) return false;
         // Must have path to victory (not too far behind)
@@ -56,12 +65,12 @@ export class UnderdogStrategy extends BaseStrategy {
     if (candidates.length === 0) {
       // Fall back to team with smallest pool that can still win
       const fallback = [...parsed.teams]
-        .filter((t) => t.closestFruit)
+        .filter((t) => t.closestFruit && (!routes || routes.get(t.id)))
         .sort((a, b) => a.pool - b.pool)[0];
 
       if (!fallback) return null;
 
-      const bestDir = this.findBestDirection(parsed, fallback.closestFruit?.fruit || null);
+      const bestDir = directionFor(fallback);
       if (!bestDir) return null;
 
       return {
@@ -73,8 +82,7 @@ export class UnderdogStrategy extends BaseStrategy {
     }
 
     const targetTeam = candidates[0].team;
-    const targetFruit = targetTeam.closestFruit?.fruit || null;
-    const bestDir = this.findBestDirection(parsed, targetFruit);
+    const bestDir = directionFor(targetTeam);
 
     if (!bestDir) return null;
 
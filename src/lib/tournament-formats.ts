@@ -0,0 +1,433 @@
+/**
+ * Tournament formats for larger strategy pools.
+ *
+ * Where runTournament() seats every agent in every game, these formats
+ * play head-to-head matches between pairs of agent specs:
+ * - round-robin:         every pair meets once
+ * - swiss:               pairing by running score over a fixed number of rounds
+ * - single-elimination:  seeded bracket, one loss and you're out
+ * - double-elimination:  winners + losers brackets, two losses and you're out
+ *
+ * A match is a series of games (gamesPerMatch per config) between the two
+ * specs. The match winner is the one with the higher total profit (or
+ * more game wins, with metric: 'wins').
+ */
+
+import { createAgentsFromSpecs } from './agent-specs.js';
+import type { AgentSpec } from './agent-specs.js';
+import { createRNG, runTournament } from './simulator.js';
+import type { RodeoCycleConfig, RNG, GameRecord } from './simulator.js';
+
+export type TournamentFormat = 'round-robin' | 'swiss' | 'single-elimination' | 'double-elimination';
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ['round-robin', 'swiss', 'single-elimination', 'double-elimination'];
+
+export interface FormatOptions {
+  /** Games per config in each match (default: 20) */
+  gamesPerMatch?: number;
+  seed?: number;
+  /** Number of Swiss rounds (default: ceil(log2(entrants))) */
+  swissRounds?: number;
+  /** What decides a match (default: 'profit') */
+  metric?: 'profit' | 'wins';
+  /** Called with every game's record and the two specs that played it */
+  onGame?: (record: GameRecord, specs: AgentSpec[]) => void;
+}
+
+export interface MatchResult {
+  /** Stage label, e.g. "R1", "WB2", "LB1", "GF" */
+  stage: string;
+  /** Entrant indices (into the specs array) */
+  a: number;
+  b: number;
+  games: number;
+  winsA: number;
+  winsB: number;
+  profitA: number;
+  profitB: number;
+  /** Winning entrant index, or null for a draw */
+  winner: number | null;
+  /** Knockout formats: the winner was decided by a tiebreak (game wins, then a coin flip) */
+  tiebreak?: boolean;
+  seed: number;
+}
+
+export interface Standing {
+  index: number;
+  label: string;
+  rank: number;
+  played: number;
+  matchWins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  points: number;
+  gamesWon: number;
+  profit: number;
+  /** Elimination formats: stage in which the entrant was knocked out (null = champion) */
+  eliminatedIn?: string | null;
+}
+
+export interface FormatResults {
+  format: TournamentFormat;
+  labels: string[];
+  matches: MatchResult[];
+  standings: Standing[];
+  /** matrix[i][j] = i's average match score against j (1 win, 0.5 draw, 0 loss), null if they never met */
+  matrix: (number | null)[][];
+  /** profitMatrix[i][j] = i's average profit per match against j, null if they never met */
+  profitMatrix: (number | null)[][];
+  seed: number;
+}
+
+/**
+ * Shared state for a format run: plays matches and keeps the tallies.
+ */
+class MatchBook {
+  readonly matches: MatchResult[] = [];
+  readonly byes: number[];
+  /** Points from byes (Swiss only; a knockout bye just advances) */
+  private byePoints: number[];
+  private specs: AgentSpec[];
+  private configs: RodeoCycleConfig[];
+  private gamesPerMatch: number;
+  private metric: 'profit' | 'wins';
+  private onGame?: (record: GameRecord, specs: AgentSpec[]) => void;
+  readonly rng: RNG;
+
+  constructor(specs: AgentSpec[], configs: RodeoCycleConfig[], options: FormatOptions, rng: RNG) {
+    this.specs = specs;
+    this.configs = configs;
+    this.gamesPerMatch = options.gamesPerMatch ?? 20;
+    this.metric = options.metric ?? 'profit';
+    this.onGame = options.onGame;
+    this.rng = rng;
+    this.byes = specs.map(() => 0);
+    this.byePoints = specs.map(() => 0);
+  }
+
+  play(stage: string, a: number, b: number): MatchResult {
+    const seed = (this.rng() * 0xffffffff) >>> 0;
+    const pair = [this.specs[a], this.specs[b]];
+    const agents = createAgentsFromSpecs(pair, 100);
+    const results = runTournament(agents, this.configs, this.gamesPerMatch, {
+      seed,
+      onGame: this.onGame ? record => this.onGame!(record, pair) : undefined,
+    });
+    const [agentA, agentB] = agents;
+
+    const profitA = agentA.cumulativeEarned - agentA.cumulativeSpent;
+    const profitB = agentB.cumulativeEarned - agentB.cumulativeSpent;
+    const scoreA = this.metric === 'wins' ? agentA.wins : profitA;
+    const scoreB = this.metric === 'wins' ? agentB.wins : profitB;
+
+    const match: MatchResult = {
+      stage,
+      a,
+      b,
+      games: results.totalGames,
+      winsA: agentA.wins,
+      winsB: agentB.wins,
+      profitA,
+      profitB,
+      winner: scoreA > scoreB ? a : scoreB > scoreA ? b : null,
+      seed,
+    };
+    this.matches.push(match);
+    return match;
+  }
+
+  /**
+   * Play a match that must produce a winner (knockout formats).
+   * Draws go to the entrant with more game wins, then a coin flip.
+   */
+  playDecisive(stage: string, a: number, b: number): { winner: number; loser: number } {
+    const match = this.play(stage, a, b);
+    if (match.winner === null) {
+      match.winner = match.winsA !== match.winsB
+        ? (match.winsA > match.winsB ? a : b)
+        : (this.rng() < 0.5 ? a : b);
+      match.tiebreak = true;
+    }
+    return { winner: match.winner, loser: match.winner === a ? b : a };
+  }
+
+  bye(index: number, point: boolean = false): void {
+    this.byes[index]++;
+    if (point) this.byePoints[index]++;
+  }
+
+  standings(labels: string[]): Standing[] {
+    const rows: Standing[] = labels.map((label, index) => ({
+      index,
+      label,
+      rank: 0,
+      played: 0,
+      matchWins: 0,
+      draws: 0,
+      losses: 0,
+      byes: this.byes[index],
+      points: this.byePoints[index],
+      gamesWon: 0,
+      profit: 0,
+    }));
+
+    for (const m of this.matches) {
+      const ra = rows[m.a];
+      const rb = rows[m.b];
+      ra.played++;
+      rb.played++;
+      ra.gamesWon += m.winsA;
+      rb.gamesWon += m.winsB;
+      ra.profit += m.profitA;
+      rb.profit += m.profitB;
+      if (m.winner === null) {
+        ra.draws++;
+        rb.draws++;
+        ra.points += 0.5;
+        rb.points += 0.5;
+      } else {
+        const [w, l] = m.winner === m.a ? [ra, rb] : [rb, ra];
+        w.matchWins++;
+        w.points += 1;
+        l.losses++;
+      }
+    }
+
+    return rows;
+  }
+
+  matrices(n: number): { matrix: (number | null)[][]; profitMatrix: (number | null)[][] } {
+    const score: number[][] = grid(n, 0);
+    const profit: number[][] = grid(n, 0);
+    const meetings: number[][] = grid(n, 0);
+
+    for (const m of this.matches) {
+      const sa = m.winner === null ? 0.5 : m.winner === m.a ? 1 : 0;
+      score[m.a][m.b] += sa;
+      score[m.b][m.a] += 1 - sa;
+      profit[m.a][m.b] += m.profitA;
+      profit[m.b][m.a] += m.profitB;
+      meetings[m.a][m.b]++;
+      meetings[m.b][m.a]++;
+    }
+
+    const avg = (totals: number[][]): (number | null)[][] =>
+      totals.map((row, i) => row.map((v, j) => meetings[i][j] > 0 ? v / meetings[i][j] : null));
+
+    return { matrix: avg(score), profitMatrix: avg(profit) };
+  }
+}
+
+function grid(n: number, fill: number): number[][] {
+  return Array.from({ length: n }, () => new Array(n).fill(fill));
+}
+
+/** Order by points, then profit, then game wins */
+function compareStandings(a: Standing, b: Standing): number {
+  return b.points - a.points || b.profit - a.profit || b.gamesWon - a.gamesWon;
+}
+
+function assignRanks(rows: Standing[]): Standing[] {
+  rows.forEach((row, i) => { row.rank = i + 1; });
+  return rows;
+}
+
+// ── Formats ─────────────────────────────────────────────────────────
+
+function runRoundRobin(book: MatchBook, n: number): void {
+  for (let a = 0; a < n; a++) {
+    for (let b = a + 1; b < n; b++) {
+      book.play('RR', a, b);
+    }
+  }
+}
+
+function runSwiss(book: MatchBook, labels: string[], rounds: number): void {
+  const n = labels.length;
+  const met = new Set<string>();
+  const key = (a: number, b: number): string => a < b ? `${a}-${b}` : `${b}-${a}`;
+
+  for (let round = 1; round <= rounds; round++) {
+    const order = book.standings(labels).sort(compareStandings).map(s => s.index);
+
+    // Odd field: the lowest-ranked entrant without a bye sits out for a point
+    if (n % 2 === 1) {
+      const byeIdx = [...order].reverse().find(i => book.byes[i] === 0) ?? order[order.length - 1];
+      order.splice(order.indexOf(byeIdx), 1);
+      book.bye(byeIdx, true);
+    }
+
+    // Greedy pairing down the table, avoiding rematches where possible
+    const unpaired = [...order];
+    while (unpaired.length >= 2) {
+      const a = unpaired.shift()!;
+      let partner = unpaired.findIndex(b => !met.has(key(a, b)));
+      if (partner === -1) partner = 0;
+      const b = unpaired.splice(partner, 1)[0];
+      met.add(key(a, b));
+      book.play(`R${round}`, a, b);
+    }
+  }
+}
+
+/**
+ * Standard bracket seeding order for a power-of-two bracket,
+ * e.g. 8 → [0, 7, 3, 4, 1, 6, 2, 5] so top seeds meet last.
+ */
+function bracketOrder(size: number): number[] {
+  let order = [0];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap(s => [s, next - 1 - s]);
+  }
+  return order;
+}
+
+/**
+ * Play one knockout round over `field` (null = bye). Returns winners and losers.
+ */
+function knockoutRound(book: MatchBook, stage: string, field: (number | null)[]): { winners: (number | null)[]; losers: number[] } {
+  const winners: (number | null)[] = [];
+  const losers: number[] = [];
+  for (let i = 0; i < field.length; i += 2) {
+    const a = field[i];
+    const b = i + 1 < field.length ? field[i + 1] : null;
+    if (a === null || b === null) {
+      const through = a ?? b;
+      if (through !== null) book.bye(through);
+      winners.push(through);
+      continue;
+    }
+    const { winner, loser } = book.playDecisive(stage, a, b);
+    winners.push(winner);
+    losers.push(loser);
+  }
+  return { winners, losers };
+}
+
+function runSingleElimination(book: MatchBook, n: number): Map<number, string | null> {
+  const eliminated = new Map<number, string | null>();
+  const size = 2 ** Math.ceil(Math.log2(Math.max(n, 2)));
+  let field: (number | null)[] = bracketOrder(size).map(seed => seed < n ? seed : null);
+
+  let round = 1;
+  while (field.filter(e => e !== null).length > 1) {
+    const stage = `R${round}`;
+    const { winners, losers } = knockoutRound(book, stage, field);
+    for (const l of losers) eliminated.set(l, stage);
+    field = winners;
+    round++;
+  }
+
+  const champion = field.find(e => e !== null);
+  if (champion != null) eliminated.set(champion, null);
+  return eliminated;
+}
+
+function runDoubleElimination(book: MatchBook, n: number): Map<number, string | null> {
+  const eliminated = new Map<number, string | null>();
+  const size = 2 ** Math.ceil(Math.log2(Math.max(n, 2)));
+  let winnersBracket: (number | null)[] = bracketOrder(size).map(seed => seed < n ? seed : null);
+  let losersBracket: number[] = [];
+
+  let round = 1;
+  for (;;) {
+    const alive = winnersBracket.filter((e): e is number => e !== null);
+
+    if (alive.length === 1 && losersBracket.length <= 1) {
+      const champ = alive[0];
+      if (losersBracket.length === 1) {
+        // Grand final; if the losers-bracket entrant wins, both have one loss — play again
+        const challenger = losersBracket[0];
+        let stage = 'GF';
+        let result = book.playDecisive(stage, champ, challenger);
+        if (result.winner === challenger) {
+          stage = 'GF2';
+          result = book.playDecisive(stage, champ, challenger);
+        }
+        eliminated.set(result.loser, stage);
+        eliminated.set(result.winner, null);
+      } else {
+        eliminated.set(champ, null);
+      }
+      break;
+    }
+
+    let dropped: number[] = [];
+    if (alive.length > 1) {
+      const { winners, losers } = knockoutRound(book, `WB${round}`, winnersBracket);
+      winnersBracket = winners;
+      dropped = losers;
+    }
+
+    losersBracket = [...losersBracket, ...dropped];
+    if (losersBracket.length > 1) {
+      const stage = `LB${round}`;
+      const { winners, losers } = knockoutRound(book, stage, losersBracket);
+      for (const l of losers) eliminated.set(l, stage);
+      losersBracket = winners.filter((e): e is number => e !== null);
+    }
+    round++;
+  }
+
+  return eliminated;
+}
+
+/**
+ * Run a tournament in the given format between agent specs.
+ */
+export function runFormatTournament(
+  format: TournamentFormat,
+  specs: AgentSpec[],
+  configs: RodeoCycleConfig[],
+  options: FormatOptions = {},
+): FormatResults {
+  if (specs.length < 2) throw new Error('A tournament format needs at least 2 entrants');
+
+  const { rng, seed } = createRNG(options.seed);
+  const book = new MatchBook(specs, configs, options, rng);
+  const labels = specs.map((s, i) => specs.filter(o => o.label === s.label).length > 1 ? `${s.label}#${i}` : s.label);
+  const n = specs.length;
+
+  let eliminated: Map<number, string | null> | null = null;
+  switch (format) {
+    case 'round-robin':
+      runRoundRobin(book, n);
+      break;
+    case 'swiss':
+      runSwiss(book, labels, options.swissRounds ?? Math.ceil(Math.log2(n)));
+      break;
+    case 'single-elimination':
+      eliminated = runSingleElimination(book, n);
+      break;
+    case 'double-elimination':
+      eliminated = runDoubleElimination(book, n);
+      break;
+    default:
+      throw new Error(`Unknown tournament format: ${format}. Available: ${TOURNAMENT_FORMATS.join(', ')}`);
+  }
+
+  let standings = book.standings(labels);
+  if (eliminated) {
+    // Knockout: the champion first, then by how late the entrant was
+    // knocked out; entrants out in the same stage by the usual order
+    const stages = [...new Set(book.matches.map(m => m.stage))];
+    const depth = (row: Standing): number =>
+      row.eliminatedIn === null ? stages.length : stages.indexOf(row.eliminatedIn!);
+    for (const row of standings) row.eliminatedIn = eliminated.get(row.index) ?? null;
+    standings.sort((a, b) => depth(b) - depth(a) || compareStandings(a, b));
+  } else {
+    standings.sort(compareStandings);
+  }
+  standings = assignRanks(standings);
+
+  return {
+    format,
+    labels,
+    matches: book.matches,
+    standings,
+    ...book.matrices(n),
+    seed,
+  };
+}
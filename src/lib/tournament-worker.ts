@@ -0,0 +1,21 @@
+/**
+ * Worker-thread entry point for parallel tournaments.
+ *
+ * Rebuilds agents from their specs, plays the slice of planned games it
+ * was given, and posts the game records back to the parent thread.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+
+import { createAgentsFromSpecs } from './agent-specs.js';
+import { playTournamentGames } from './simulator.js';
+import type { TournamentWorkerInput } from './parallel.js';
+
+const input = workerData as TournamentWorkerInput;
+const agents = createAgentsFromSpecs(input.specs, input.balance);
+
+// Match the serial run's per-agent game counters at the start of this slice
+for (const agent of agents) agent.gamesPlayed = input.gamesBefore;
+
+const records = playTournamentGames(agents, input.configs, input.games, { clock: input.clock });
+parentPort!.postMessage(records);